@@ -2,6 +2,13 @@
 
 import { readFileSync } from "node:fs";
 import { FastMCP } from "fastmcp";
+import { executionApi } from "./services/execution.js";
+import {
+	hasWebSocketSupport,
+	marketStream,
+	type TopOfBookUpdate,
+} from "./services/market-stream.js";
+import { triggerApi } from "./services/triggers.js";
 import * as tools from "./tools/index.js";
 import { log } from "./util/log.js";
 
@@ -22,26 +29,79 @@ async function main() {
 	// Read-only market data tools (always available)
 	server.addTool(tools.getMarketBySlugTool);
 	server.addTool(tools.getEventBySlugTool);
+	server.addTool(tools.eventOverviewTool);
+	server.addTool(tools.scanNegRiskArbitrageTool);
 	server.addTool(tools.listActiveMarketsTool);
 	server.addTool(tools.searchMarketsTool);
 	server.addTool(tools.getMarketsByTagTool);
+	server.addTool(tools.screenMarketsTool);
 	server.addTool(tools.getAllTagsTool);
+	server.addTool(tools.getRelatedTagsTool);
+	server.addTool(tools.getCacheStatsTool);
 	server.addTool(tools.getOrderBookTool);
+	server.addTool(tools.analyzeOrderBookTool);
+	server.addTool(tools.getPricesTool);
+	server.addTool(tools.getMidpointsTool);
+	server.addTool(tools.getSpreadsTool);
+	server.addTool(tools.getPriceHistoryTool);
+
+	// Live market data tools - only register if the runtime has a global WebSocket
+	if (hasWebSocketSupport()) {
+		server.addTool(tools.subscribeMarketDataTool);
+		server.addTool(tools.unsubscribeMarketDataTool);
+		server.addTool(tools.getMarketSnapshotTool);
+
+		// Push top-of-book changes from live subscriptions to connected clients
+		marketStream.on("topOfBook", (update: TopOfBookUpdate) => {
+			for (const session of server.sessions) {
+				session.server
+					.sendLoggingMessage({
+						level: "info",
+						logger: "market_data",
+						data: { type: "top_of_book", ...update },
+					})
+					.catch(() => {});
+			}
+		});
+	} else {
+		log(
+			"Live market data tools disabled: no global WebSocket (requires Node.js 22 or newer)",
+		);
+	}
 
 	// Trading tools - only register if private key is provided
 	if (hasPrivateKey) {
 		server.addTool(tools.approveAllowancesTool);
 		server.addTool(tools.placeOrderTool);
+		server.addTool(tools.placeOrdersTool);
 		server.addTool(tools.placeMarketOrderTool);
 		server.addTool(tools.getOpenOrdersTool);
 		server.addTool(tools.getOrderTool);
 		server.addTool(tools.cancelOrderTool);
+		server.addTool(tools.cancelOrdersTool);
+		server.addTool(tools.replaceOrderTool);
 		server.addTool(tools.cancelAllOrdersTool);
 		server.addTool(tools.getTradeHistoryTool);
+		server.addTool(tools.exportTradeHistoryTool);
 		server.addTool(tools.getBalanceAllowanceTool);
 		server.addTool(tools.updateBalanceAllowanceTool);
 		server.addTool(tools.redeemPositionsTool);
+		server.addTool(tools.redeemAllTool);
 		server.addTool(tools.getPositionsTool);
+		server.addTool(tools.getActivityTool);
+		server.addTool(tools.getPnlReportTool);
+		server.addTool(tools.startExecutionTool);
+		server.addTool(tools.getExecutionsTool);
+		server.addTool(tools.pauseExecutionTool);
+		server.addTool(tools.resumeExecutionTool);
+		server.addTool(tools.cancelExecutionTool);
+		server.addTool(tools.createTriggerTool);
+		server.addTool(tools.listTriggersTool);
+		server.addTool(tools.cancelTriggerTool);
+
+		// Resume TWAP/iceberg executions and price triggers persisted by a previous run
+		executionApi.startScheduler();
+		triggerApi.startScheduler();
 
 		log("Trading features enabled (POLYMARKET_PRIVATE_KEY is configured)");
 	} else {
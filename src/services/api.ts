@@ -1,13 +1,131 @@
 import { GammaSDK, PolymarketSDK } from "@jsr/hk__polymarket";
 import type { OrderBookSummary } from "@polymarket/clob-client";
+import { type CacheStats, TtlCache } from "../util/ttl-cache.js";
 import { type BaseConfig, getConfig } from "./config.js";
+import type { PricePoint } from "./price-history.js";
+import {
+	compactTag,
+	type GammaTagRef,
+	matchTags,
+	type TagMatch,
+} from "./tags.js";
 
 export type PolymarketApiConfig = Partial<BaseConfig>;
 
+const GAMMA_API_URL = "https://gamma-api.polymarket.com";
+// Tokens sent per CLOB batch request; larger lists are split
+const CLOB_BATCH_SIZE = 100;
+const CONDITION_ID_PATTERN = /^0x[0-9a-fA-F]{64}$/;
+// Gamma cache lifetimes: tags and token-to-market mappings rarely change,
+// market and event data carries prices and volume so it goes stale quickly
+const CACHE_TTL_MS = {
+	tags: 60 * 60_000,
+	tokenLookup: 10 * 60_000,
+	market: 60_000,
+	event: 60_000,
+	search: 60_000,
+	listing: 30_000,
+} as const;
+const CACHE_MAX_ENTRIES = 500;
+
+export interface CacheOptions {
+	/** Skip cached data and fetch fresh (the fresh result is still cached) */
+	bypassCache?: boolean;
+}
+
+/**
+ * Subset of a Gamma market used to map CLOB tokens back to markets and events
+ * and to screen markets
+ */
+export interface GammaMarketRef {
+	id: string;
+	conditionId: string;
+	slug: string;
+	question?: string;
+	/** Candidate or option name within a multi-outcome event */
+	groupItemTitle?: string;
+	endDate?: string;
+	active?: boolean;
+	closed?: boolean;
+	negRisk?: boolean;
+	/** JSON-encoded array of outcome labels */
+	outcomes?: string;
+	/** JSON-encoded array of token IDs, aligned with outcomes */
+	clobTokenIds?: string;
+	/** JSON-encoded array of outcome prices, aligned with outcomes */
+	outcomePrices?: string;
+	volumeNum?: number;
+	volume24hr?: number;
+	liquidityNum?: number;
+	bestBid?: number;
+	bestAsk?: number;
+	spread?: number;
+	lastTradePrice?: number;
+	events?: Array<{ id?: string; slug?: string; title?: string }>;
+}
+
+/**
+ * Subset of a Gamma event with its child markets
+ */
+export interface GammaEventRef {
+	id: string;
+	slug: string;
+	title?: string;
+	endDate?: string;
+	negRisk?: boolean;
+	markets?: GammaMarketRef[];
+	tags?: GammaTagRef[];
+}
+
+/**
+ * Server-side filters accepted by the Gamma markets endpoint
+ */
+export interface GammaMarketQuery {
+	limit?: number;
+	offset?: number;
+	closed?: boolean;
+	active?: boolean;
+	tag_id?: number;
+	volume_num_min?: number;
+	liquidity_num_min?: number;
+	/** ISO 8601 */
+	end_date_min?: string;
+	/** ISO 8601 */
+	end_date_max?: string;
+	order?: string;
+	ascending?: boolean;
+}
+
+/**
+ * Server-side filters accepted by the Gamma events endpoint
+ */
+export interface GammaEventQuery {
+	limit?: number;
+	offset?: number;
+	closed?: boolean;
+	active?: boolean;
+	tag_id?: number;
+	order?: string;
+	ascending?: boolean;
+}
+
+/**
+ * A market outcome resolved from a human-readable market and outcome label
+ */
+export interface ResolvedOutcome {
+	tokenId: string;
+	outcome: string;
+	outcomeIndex: number;
+	conditionId: string;
+	slug: string;
+	negRisk: boolean;
+}
+
 export class PolymarketAPI {
 	private gamma: GammaSDK;
 	private clobSdk: PolymarketSDK | null = null;
 	private readonly cfg: BaseConfig;
+	private readonly cache = new TtlCache(CACHE_MAX_ENTRIES);
 
 	constructor(config: PolymarketApiConfig = {}) {
 		this.cfg = getConfig(config);
@@ -28,47 +146,287 @@ export class PolymarketAPI {
 	/**
 	 * Retrieves market details by its slug identifier.
 	 */
-	async getMarketBySlug(slug: string) {
-		return this.gamma.getMarketBySlug(slug);
+	async getMarketBySlug(slug: string, options: CacheOptions = {}) {
+		return this.cache.wrap(
+			`market:${slug}`,
+			CACHE_TTL_MS.market,
+			() => this.gamma.getMarketBySlug(slug),
+			options.bypassCache,
+		);
 	}
 
 	/**
 	 * Retrieves event details by its slug identifier.
 	 */
-	async getEventBySlug(slug: string) {
-		return this.gamma.getEventBySlug(slug);
+	async getEventBySlug(slug: string, options: CacheOptions = {}) {
+		return this.cache.wrap(
+			`event:${slug}`,
+			CACHE_TTL_MS.event,
+			() => this.gamma.getEventBySlug(slug),
+			options.bypassCache,
+		);
 	}
 
 	/**
 	 * Lists active markets with pagination.
 	 */
-	async listActiveMarkets(limit = 20, offset = 0) {
-		return this.gamma.getActiveMarkets({ limit, offset, closed: false });
+	async listActiveMarkets(limit = 20, offset = 0, options: CacheOptions = {}) {
+		return this.cache.wrap(
+			`active:${limit}:${offset}`,
+			CACHE_TTL_MS.listing,
+			() => this.gamma.getActiveMarkets({ limit, offset, closed: false }),
+			options.bypassCache,
+		);
 	}
 
 	/**
 	 * Searches markets, events, and profiles using a query string.
 	 */
-	async searchMarkets(query: string) {
-		return this.gamma.search({ q: query });
+	async searchMarkets(query: string, options: CacheOptions = {}) {
+		return this.cache.wrap(
+			`search:${query}`,
+			CACHE_TTL_MS.search,
+			() => this.gamma.search({ q: query }),
+			options.bypassCache,
+		);
 	}
 
 	/**
 	 * Retrieves markets filtered by tag ID.
 	 */
-	async getMarketsByTag(tagId: string, limit = 20, closed = false) {
+	async getMarketsByTag(
+		tagId: string,
+		limit = 20,
+		closed = false,
+		options: CacheOptions = {},
+	) {
 		const parsedTagId = Number(tagId);
 		if (Number.isNaN(parsedTagId)) {
 			throw new Error("tag_id must be a number");
 		}
-		return this.gamma.getMarkets({ tag_id: parsedTagId, limit, closed });
+		return this.cache.wrap(
+			`tag:${parsedTagId}:${limit}:${closed}`,
+			CACHE_TTL_MS.listing,
+			() => this.gamma.getMarkets({ tag_id: parsedTagId, limit, closed }),
+			options.bypassCache,
+		);
+	}
+
+	/**
+	 * Retrieves one page of markets matching server-side Gamma filters.
+	 */
+	async listMarkets(query: GammaMarketQuery): Promise<GammaMarketRef[]> {
+		return (await this.gamma.getMarkets(query)) as GammaMarketRef[];
+	}
+
+	/**
+	 * Retrieves one page of events matching server-side Gamma filters.
+	 */
+	async listEvents(query: GammaEventQuery): Promise<GammaEventRef[]> {
+		const params = new URLSearchParams();
+		for (const [key, value] of Object.entries(query)) {
+			if (value !== undefined) params.set(key, String(value));
+		}
+		const res = await fetch(`${GAMMA_API_URL}/events?${params}`);
+		if (!res.ok) {
+			throw new Error(
+				`Failed to fetch events: ${res.status} ${res.statusText}`,
+			);
+		}
+		return (await res.json()) as GammaEventRef[];
 	}
 
 	/**
 	 * Retrieves all available tags.
 	 */
-	async getAllTags() {
-		return this.gamma.getTags({});
+	async getAllTags(options: CacheOptions = {}) {
+		return this.cache.wrap(
+			"tags",
+			CACHE_TTL_MS.tags,
+			() => this.gamma.getTags({}),
+			options.bypassCache,
+		);
+	}
+
+	/**
+	 * Resolves a tag from its numeric ID, slug or label. Numeric input is
+	 * always an ID; slugs and labels are matched fuzzily, so "us politics" or
+	 * a small typo still finds the tag.
+	 */
+	async resolveTag(input: string): Promise<TagMatch> {
+		const query = input.trim();
+		const tags = (await this.getAllTags()) as GammaTagRef[];
+		if (/^\d+$/.test(query)) {
+			const tag = tags.find((t) => String(t.id) === query);
+			// Unknown numeric IDs are passed through for Gamma to judge
+			return tag ? { ...compactTag(tag), score: 1 } : { id: query, score: 1 };
+		}
+		const [best] = matchTags(tags, query);
+		if (best) return best;
+		throw new Error(
+			`No tag matches "${input}". Use get_all_tags with a search to browse tags.`,
+		);
+	}
+
+	/**
+	 * Retrieves tags related to a tag, as ranked by Gamma.
+	 */
+	async getRelatedTags(
+		tagId: string,
+		options: CacheOptions = {},
+	): Promise<GammaTagRef[]> {
+		return this.cache.wrap(
+			`related-tags:${tagId}`,
+			CACHE_TTL_MS.tags,
+			async () => {
+				const res = await fetch(
+					`${GAMMA_API_URL}/tags/${encodeURIComponent(tagId)}/related-tags/tags`,
+				);
+				if (!res.ok) {
+					throw new Error(
+						`Failed to fetch related tags: ${res.status} ${res.statusText}`,
+					);
+				}
+				return (await res.json()) as GammaTagRef[];
+			},
+			options.bypassCache,
+		);
+	}
+
+	/**
+	 * Retrieves the market containing a CLOB token ID (null if unknown).
+	 */
+	async getMarketByTokenId(tokenId: string): Promise<GammaMarketRef | null> {
+		return this.cache.wrap(
+			`token:${tokenId}`,
+			CACHE_TTL_MS.tokenLookup,
+			async () => {
+				const params = new URLSearchParams({ clob_token_ids: tokenId });
+				const res = await fetch(`${GAMMA_API_URL}/markets?${params}`);
+				if (!res.ok) {
+					throw new Error(
+						`Failed to fetch market for token: ${res.status} ${res.statusText}`,
+					);
+				}
+				const markets = (await res.json()) as GammaMarketRef[];
+				return markets[0] ?? null;
+			},
+		);
+	}
+
+	/**
+	 * Retrieves a market by slug or condition ID (0x-prefixed 32-byte hex).
+	 */
+	async resolveMarket(market: string): Promise<GammaMarketRef> {
+		const key = market.trim();
+		const found = await this.findMarket(key);
+		if (!found) {
+			throw new Error(`Market not found: ${key}`);
+		}
+		return found;
+	}
+
+	private async findMarket(key: string): Promise<GammaMarketRef | null> {
+		const params = CONDITION_ID_PATTERN.test(key)
+			? new URLSearchParams({ condition_ids: key })
+			: new URLSearchParams({ slug: key });
+		return this.cache.wrap(
+			`resolve:${key}`,
+			CACHE_TTL_MS.tokenLookup,
+			async () => {
+				const res = await fetch(`${GAMMA_API_URL}/markets?${params}`);
+				if (!res.ok) {
+					throw new Error(
+						`Failed to fetch market ${key}: ${res.status} ${res.statusText}`,
+					);
+				}
+				const [first] = (await res.json()) as GammaMarketRef[];
+				return first ?? null;
+			},
+		);
+	}
+
+	/**
+	 * Resolves a market (slug or condition ID) and outcome label such as
+	 * "Yes" or "No" to its CLOB token. An event slug also works: the outcome
+	 * is then a candidate name, matched against each child market's
+	 * groupItemTitle, and resolves to that market's YES token. Matching is
+	 * case-insensitive.
+	 */
+	async resolveOutcome(
+		market: string,
+		outcome: string,
+	): Promise<ResolvedOutcome> {
+		const key = market.trim();
+		const found = await this.findMarket(key);
+		if (found) return matchOutcome(found, outcome);
+		if (CONDITION_ID_PATTERN.test(key)) {
+			throw new Error(`Market not found: ${key}`);
+		}
+
+		const event = (await this.getEventBySlug(key)) as GammaEventRef | null;
+		const markets = event?.markets ?? [];
+		if (markets.length === 0) {
+			throw new Error(`Market or event not found: ${key}`);
+		}
+		// A single-market event carries its own labels, e.g. "Yes" / "No"
+		if (markets.length === 1) return matchOutcome(markets[0], outcome);
+
+		const wanted = outcome.trim().toLowerCase();
+		const candidate = markets.find(
+			(m) => m.groupItemTitle?.trim().toLowerCase() === wanted,
+		);
+		if (!candidate) {
+			const names = markets.flatMap((m) =>
+				m.groupItemTitle ? [m.groupItemTitle] : [],
+			);
+			throw new Error(
+				`Outcome "${outcome}" not found in event ${key}. Available outcomes: ${names.join(", ")}`,
+			);
+		}
+		return {
+			...matchOutcome(candidate, "Yes"),
+			outcome: candidate.groupItemTitle ?? outcome,
+		};
+	}
+
+	/**
+	 * Resolves a market (slug or condition ID) and outcome label to a token ID.
+	 */
+	async resolveTokenId(market: string, outcome: string): Promise<string> {
+		return (await this.resolveOutcome(market, outcome)).tokenId;
+	}
+
+	/**
+	 * Retrieves the price history of a token from the public CLOB endpoint.
+	 * Use either a relative `interval` (e.g. "1d") or an explicit start/end range.
+	 */
+	async getPriceHistory(params: {
+		tokenId: string;
+		startTs?: number;
+		endTs?: number;
+		interval?: string;
+		/** Resolution of the returned points, in minutes */
+		fidelity?: number;
+	}): Promise<PricePoint[]> {
+		const query = new URLSearchParams({ market: params.tokenId });
+		if (params.startTs !== undefined) {
+			query.set("startTs", String(params.startTs));
+		}
+		if (params.endTs !== undefined) query.set("endTs", String(params.endTs));
+		if (params.interval) query.set("interval", params.interval);
+		if (params.fidelity !== undefined) {
+			query.set("fidelity", String(params.fidelity));
+		}
+
+		const res = await fetch(`${this.cfg.host}/prices-history?${query}`);
+		if (!res.ok) {
+			throw new Error(
+				`Failed to fetch price history: ${res.status} ${res.statusText}`,
+			);
+		}
+		const data = (await res.json()) as { history?: PricePoint[] };
+		return data.history ?? [];
 	}
 
 	/**
@@ -87,6 +445,163 @@ export class PolymarketAPI {
 		}
 		return (await res.json()) as OrderBookSummary;
 	}
+
+	/**
+	 * Retrieves order books for many tokens via the public batch endpoint.
+	 */
+	async getOrderBooks(tokenIds: string[]): Promise<OrderBookSummary[]> {
+		const books: OrderBookSummary[] = [];
+		for (let i = 0; i < tokenIds.length; i += CLOB_BATCH_SIZE) {
+			const chunk = tokenIds
+				.slice(i, i + CLOB_BATCH_SIZE)
+				.map((token_id) => ({ token_id }));
+			books.push(...(await this.postClob<OrderBookSummary[]>("/books", chunk)));
+		}
+		return books;
+	}
+
+	/**
+	 * Retrieves the base taker fee rate of a token in basis points.
+	 */
+	async getFeeRateBps(tokenId: string): Promise<number> {
+		const url = `${this.cfg.host}/fee-rate?token_id=${encodeURIComponent(tokenId)}`;
+		const res = await fetch(url);
+		if (!res.ok) {
+			throw new Error(
+				`Failed to fetch fee rate: ${res.status} ${res.statusText}`,
+			);
+		}
+		const data = (await res.json()) as { base_fee?: number };
+		return Number(data.base_fee ?? 0);
+	}
+
+	/**
+	 * Retrieves best prices for many tokens via the public batch endpoint.
+	 * BUY is the best bid, SELL the best ask; both sides when no side is given.
+	 */
+	async getPrices(
+		tokenIds: string[],
+		side?: "BUY" | "SELL",
+	): Promise<Record<string, { BUY?: number; SELL?: number }>> {
+		const sides = side ? [side] : (["BUY", "SELL"] as const);
+		const raw = await this.postClobBatch<Record<string, string>>(
+			"/prices",
+			tokenIds.flatMap((token_id) => sides.map((s) => ({ token_id, side: s }))),
+		);
+		return mapValues(raw, (prices) => mapValues(prices, Number));
+	}
+
+	/**
+	 * Retrieves midpoints for many tokens via the public batch endpoint.
+	 */
+	async getMidpoints(tokenIds: string[]): Promise<Record<string, number>> {
+		const raw = await this.postClobBatch<string>(
+			"/midpoints",
+			tokenIds.map((token_id) => ({ token_id })),
+		);
+		return mapValues(raw, Number);
+	}
+
+	/**
+	 * Retrieves bid-ask spreads for many tokens via the public batch endpoint.
+	 */
+	async getSpreads(tokenIds: string[]): Promise<Record<string, number>> {
+		const raw = await this.postClobBatch<string>(
+			"/spreads",
+			tokenIds.map((token_id) => ({ token_id })),
+		);
+		return mapValues(raw, Number);
+	}
+
+	/**
+	 * Gamma response cache statistics
+	 */
+	getCacheStats(): CacheStats {
+		return this.cache.getStats();
+	}
+
+	/**
+	 * Drop all cached Gamma responses; returns the number of entries removed
+	 */
+	clearCache(): number {
+		return this.cache.clear();
+	}
+
+	/**
+	 * POST a CLOB batch endpoint in chunks and merge the keyed responses.
+	 * These endpoints are public, so no credentials are needed.
+	 */
+	private async postClobBatch<T>(
+		path: string,
+		params: Array<{ token_id: string; side?: string }>,
+	): Promise<Record<string, T>> {
+		const merged: Record<string, T> = {};
+		for (let i = 0; i < params.length; i += CLOB_BATCH_SIZE) {
+			const chunk = await this.postClob<Record<string, T>>(
+				path,
+				params.slice(i, i + CLOB_BATCH_SIZE),
+			);
+			for (const [key, value] of Object.entries(chunk)) {
+				merged[key] =
+					typeof value === "object" && value !== null
+						? ({ ...merged[key], ...value } as T)
+						: value;
+			}
+		}
+		return merged;
+	}
+
+	private async postClob<T>(
+		path: string,
+		params: Array<{ token_id: string; side?: string }>,
+	): Promise<T> {
+		const res = await fetch(`${this.cfg.host}${path}`, {
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify(params),
+		});
+		if (!res.ok) {
+			throw new Error(
+				`Failed to fetch ${path.slice(1)}: ${res.status} ${res.statusText}`,
+			);
+		}
+		return (await res.json()) as T;
+	}
+}
+
+function mapValues<T, U>(
+	record: Record<string, T>,
+	fn: (value: T) => U,
+): Record<string, U> {
+	return Object.fromEntries(
+		Object.entries(record).map(([key, value]) => [key, fn(value)]),
+	);
+}
+
+/**
+ * Finds an outcome label in one market's outcomes array (case-insensitive)
+ */
+function matchOutcome(
+	market: GammaMarketRef,
+	outcome: string,
+): ResolvedOutcome {
+	const outcomes = JSON.parse(market.outcomes ?? "[]") as string[];
+	const tokenIds = JSON.parse(market.clobTokenIds ?? "[]") as string[];
+	const wanted = outcome.trim().toLowerCase();
+	const index = outcomes.findIndex((o) => o.toLowerCase() === wanted);
+	if (index === -1 || !tokenIds[index]) {
+		throw new Error(
+			`Outcome "${outcome}" not found in ${market.slug}. Available outcomes: ${outcomes.join(", ")}`,
+		);
+	}
+	return {
+		tokenId: tokenIds[index],
+		outcome: outcomes[index],
+		outcomeIndex: index,
+		conditionId: market.conditionId,
+		slug: market.slug,
+		negRisk: market.negRisk ?? false,
+	};
 }
 
 // Default instance using environment variables
@@ -0,0 +1,367 @@
+/**
+ * Neg-Risk Arbitrage Scanner
+ * Exactly one outcome of a neg-risk event resolves YES, so a full set of YES
+ * shares always pays $1. Buying every YES below $1 (or selling every YES
+ * above $1) locks in the difference. Sums are computed from the live books at
+ * a target size, after fees.
+ */
+
+import type { OrderBookSummary } from "@polymarket/clob-client";
+import { api, type GammaEventRef, type GammaMarketRef } from "./api.js";
+import { parseTokenIds } from "./events.js";
+import { estimateFee, getLevels, round, walkBook } from "./orderbook.js";
+
+// Events fetched per Gamma request
+const PAGE_SIZE = 100;
+
+export interface ArbitrageLeg {
+	outcome: string;
+	marketSlug: string;
+	tokenId: string;
+	side: "BUY" | "SELL";
+	/** Shares to trade on this leg */
+	size: number;
+	avgPrice: number | null;
+	/** Price of the deepest level used; a limit at this price fills the leg */
+	worstPrice: number | null;
+	/** USDC paid (BUY) or received (SELL) before fees */
+	notional: number;
+	feeRateBps: number;
+	fees: number;
+}
+
+export interface ArbitrageSide {
+	/** BUY_ALL_YES profits when asks sum below $1, SELL_ALL_YES when bids sum above */
+	strategy: "BUY_ALL_YES" | "SELL_ALL_YES";
+	/** Sum of best prices across outcomes (one share each) */
+	topOfBookSum: number | null;
+	/** Complete sets executable at the target size (limited by the thinnest book) */
+	sets: number;
+	/** Sum of leg notionals before fees */
+	notional: number;
+	fees: number;
+	/** USDC profit after fees for all sets; sets pay out $1 each at resolution */
+	profit: number;
+	profitPerSet: number | null;
+	legs: ArbitrageLeg[];
+}
+
+export interface EventArbitrage {
+	slug: string;
+	title: string | null;
+	outcomeCount: number;
+	buyAll: ArbitrageSide;
+	sellAll: ArbitrageSide;
+}
+
+export interface ArbitrageOpportunity extends ArbitrageSide {
+	eventSlug: string;
+	eventTitle: string | null;
+}
+
+export interface ArbitrageScanCriteria {
+	/** Scan a single event */
+	eventSlug?: string;
+	/** Scan neg-risk events with this tag ID */
+	tagId?: string;
+	/** Shares per outcome to size each leg */
+	size: number;
+	/** Minimum profit per set (USDC) to report an opportunity */
+	minEdge?: number;
+	/** Events fetched from Gamma before giving up (tag and all-events scans) */
+	maxEvents?: number;
+}
+
+export interface ArbitrageScanResult {
+	scannedEvents: number;
+	/** Events left out, with the reason (not neg-risk, missing books, ...) */
+	skipped: Array<{ slug: string; reason: string }>;
+	opportunities: ArbitrageOpportunity[];
+	/** Full breakdown, only when a single event was requested */
+	event?: EventArbitrage;
+}
+
+interface OutcomeTokens {
+	outcome: string;
+	marketSlug: string;
+	tokenId: string;
+}
+
+interface OutcomeBook extends OutcomeTokens {
+	book: OrderBookSummary;
+}
+
+/**
+ * Scan one event, the neg-risk events of a tag, or all active neg-risk events.
+ * Fee rates are only fetched for events that are profitable before fees, since
+ * fees can only shrink the edge.
+ */
+export async function scanNegRiskArbitrage(
+	criteria: ArbitrageScanCriteria,
+): Promise<ArbitrageScanResult> {
+	const minEdge = criteria.minEdge ?? 0;
+	const events = criteria.eventSlug
+		? [await getEvent(criteria.eventSlug)]
+		: await listNegRiskEvents(criteria.tagId, criteria.maxEvents ?? 100);
+
+	const skipped: ArbitrageScanResult["skipped"] = [];
+	const candidates: Array<{ event: GammaEventRef; outcomes: OutcomeTokens[] }> =
+		[];
+	for (const event of events) {
+		const reason = !event.negRisk
+			? "not a neg-risk event; outcomes are not mutually exclusive"
+			: getUnavailableMarketReason(event);
+		const outcomes = reason ? [] : getOpenOutcomes(event);
+		if (reason || outcomes.length < 2) {
+			skipped.push({
+				slug: event.slug,
+				reason: reason ?? "fewer than two open outcomes",
+			});
+			continue;
+		}
+		candidates.push({ event, outcomes });
+	}
+
+	const books = await api.getOrderBooks(
+		candidates.flatMap((c) => c.outcomes.map((o) => o.tokenId)),
+	);
+	const bookByToken = new Map(books.map((b) => [b.asset_id, b]));
+
+	const results: EventArbitrage[] = [];
+	const feeRates = new Map<string, number>();
+	for (const { event, outcomes } of candidates) {
+		const outcomeBooks: OutcomeBook[] = [];
+		for (const outcome of outcomes) {
+			const book = bookByToken.get(outcome.tokenId);
+			if (book) outcomeBooks.push({ ...outcome, book });
+		}
+		if (outcomeBooks.length < outcomes.length) {
+			skipped.push({ slug: event.slug, reason: "missing order books" });
+			continue;
+		}
+
+		let result = evaluateEvent(event, outcomeBooks, criteria.size, feeRates);
+		const profitable = [result.buyAll, result.sellAll].some((side) =>
+			isOpportunity(side, minEdge),
+		);
+		if (profitable || criteria.eventSlug) {
+			const feeError = await loadFeeRates(
+				outcomeBooks.map((o) => o.tokenId),
+				feeRates,
+			);
+			// Without the fee rates the edge after fees is unknown
+			if (feeError) {
+				skipped.push({ slug: event.slug, reason: feeError });
+				continue;
+			}
+			result = evaluateEvent(event, outcomeBooks, criteria.size, feeRates);
+		}
+		results.push(result);
+	}
+
+	const opportunities = results
+		.flatMap((r) =>
+			[r.buyAll, r.sellAll]
+				.filter((side) => isOpportunity(side, minEdge))
+				.map((side) => ({
+					eventSlug: r.slug,
+					eventTitle: r.title,
+					...side,
+				})),
+		)
+		.sort((a, b) => b.profit - a.profit);
+
+	return {
+		scannedEvents: events.length,
+		skipped,
+		opportunities,
+		...(criteria.eventSlug && results[0] && { event: results[0] }),
+	};
+}
+
+/**
+ * Evaluate buying and selling a full set of YES shares across an event's books
+ */
+function evaluateEvent(
+	event: GammaEventRef,
+	outcomes: OutcomeBook[],
+	size: number,
+	feeRates: Map<string, number> = new Map(),
+): EventArbitrage {
+	return {
+		slug: event.slug,
+		title: event.title ?? null,
+		outcomeCount: outcomes.length,
+		buyAll: evaluateSide("BUY", outcomes, size, feeRates),
+		sellAll: evaluateSide("SELL", outcomes, size, feeRates),
+	};
+}
+
+function evaluateSide(
+	side: "BUY" | "SELL",
+	outcomes: OutcomeBook[],
+	size: number,
+	feeRates: Map<string, number>,
+): ArbitrageSide {
+	const bookSide = side === "BUY" ? "asks" : "bids";
+	const levels = outcomes.map((o) => getLevels(o.book, bookSide));
+
+	// A set needs one share of every outcome, so the thinnest book caps the size
+	const depth = Math.min(
+		...levels.map((l) => l.reduce((sum, level) => sum + level.size, 0)),
+	);
+	const sets = Math.floor(Math.min(size, depth) * 100) / 100;
+	const best = levels.map((l) => l[0]?.price ?? null);
+	const topOfBookSum = best.some((p) => p === null)
+		? null
+		: round(
+				best.reduce<number>((sum, p) => sum + (p ?? 0), 0),
+				4,
+			);
+
+	const legs = outcomes.map((o, i): ArbitrageLeg => {
+		const fill = walkBook(levels[i], side, { shares: sets });
+		const feeRateBps = feeRates.get(o.tokenId) ?? 0;
+		return {
+			outcome: o.outcome,
+			marketSlug: o.marketSlug,
+			tokenId: o.tokenId,
+			side,
+			size: fill.filledSize,
+			avgPrice: fill.avgPrice,
+			worstPrice: fill.worstPrice,
+			notional: fill.totalCost,
+			feeRateBps,
+			fees:
+				fill.avgPrice !== null
+					? round(estimateFee(fill.avgPrice, fill.filledSize, feeRateBps))
+					: 0,
+		};
+	});
+
+	const notional = legs.reduce((sum, leg) => sum + leg.notional, 0);
+	const fees = legs.reduce((sum, leg) => sum + leg.fees, 0);
+	// Buying pays the notional for sets worth $1 each; selling receives it
+	const gross = side === "BUY" ? sets - notional : notional - sets;
+	const profit = gross - fees;
+
+	return {
+		strategy: side === "BUY" ? "BUY_ALL_YES" : "SELL_ALL_YES",
+		topOfBookSum,
+		sets,
+		notional: round(notional),
+		fees: round(fees),
+		profit: round(profit),
+		profitPerSet: sets > 0 ? round(profit / sets) : null,
+		legs,
+	};
+}
+
+function isOpportunity(side: ArbitrageSide, minEdge: number): boolean {
+	return (
+		side.sets > 0 && side.profitPerSet !== null && side.profitPerSet > minEdge
+	);
+}
+
+/**
+ * A full set only pays $1 if it covers every outcome that can still win.
+ * Markets that closed resolving NO drop out of the set; any other closed or
+ * inactive market makes the set incomplete, so the event is skipped.
+ */
+function getUnavailableMarketReason(event: GammaEventRef): string | undefined {
+	for (const m of event.markets ?? []) {
+		if (m.closed === true && !resolvedNo(m)) {
+			return `market ${m.slug} is closed`;
+		}
+		if (m.closed !== true && m.active === false) {
+			return `market ${m.slug} is inactive`;
+		}
+	}
+	return undefined;
+}
+
+function resolvedNo(market: GammaMarketRef): boolean {
+	const prices = JSON.parse(market.outcomePrices ?? "[]") as string[];
+	return Number(prices[0]) === 0 && Number(prices[1]) === 1;
+}
+
+/**
+ * YES tokens of the event's open markets, one per outcome
+ */
+function getOpenOutcomes(event: GammaEventRef): OutcomeTokens[] {
+	return (event.markets ?? [])
+		.filter((m) => m.closed !== true)
+		.map((m) => ({
+			outcome: m.groupItemTitle || m.question || m.slug,
+			marketSlug: m.slug,
+			tokenId: parseTokenIds(m)[0],
+		}))
+		.filter((o) => !!o.tokenId);
+}
+
+async function getEvent(slug: string): Promise<GammaEventRef> {
+	const event = (await api.getEventBySlug(slug)) as GammaEventRef | null;
+	if (!event) {
+		throw new Error(`Event not found: ${slug}`);
+	}
+	return event;
+}
+
+/**
+ * Page through active events (optionally within a tag), keeping neg-risk ones
+ */
+async function listNegRiskEvents(
+	tagId: string | undefined,
+	maxEvents: number,
+): Promise<GammaEventRef[]> {
+	const tag = tagId !== undefined ? Number(tagId) : undefined;
+	if (tag !== undefined && Number.isNaN(tag)) {
+		throw new Error(`tag_id must be a number: ${tagId}`);
+	}
+
+	const events: GammaEventRef[] = [];
+	for (let offset = 0; offset < maxEvents; offset += PAGE_SIZE) {
+		const pageSize = Math.min(PAGE_SIZE, maxEvents - offset);
+		const page = await api.listEvents({
+			closed: false,
+			active: true,
+			tag_id: tag,
+			order: "volume24hr",
+			ascending: false,
+			limit: pageSize,
+			offset,
+		});
+		events.push(...page.filter((e) => e.negRisk));
+		if (page.length < pageSize) break;
+	}
+	return events;
+}
+
+/**
+ * Fetch fee rates not cached yet. Returns an error message when any rate
+ * could not be fetched; failed tokens stay uncached and are retried.
+ */
+async function loadFeeRates(
+	tokenIds: string[],
+	feeRates: Map<string, number>,
+): Promise<string | undefined> {
+	const missing = tokenIds.filter((t) => !feeRates.has(t));
+	const rates = await Promise.allSettled(
+		missing.map((t) => api.getFeeRateBps(t)),
+	);
+	const errors: string[] = [];
+	rates.forEach((rate, i) => {
+		if (rate.status === "fulfilled") {
+			feeRates.set(missing[i], rate.value);
+		} else {
+			const message =
+				rate.reason instanceof Error
+					? rate.reason.message
+					: String(rate.reason);
+			errors.push(`${missing[i]}: ${message}`);
+		}
+	});
+	return errors.length > 0
+		? `fee rate unavailable (${errors.join("; ")})`
+		: undefined;
+}
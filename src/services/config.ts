@@ -1,10 +1,17 @@
+import { homedir } from "node:os";
+import { join } from "node:path";
+
 export type BaseConfig = {
 	host: string;
+	/** CLOB websocket market channel */
+	wsUrl: string;
 	chainId: number;
 	signatureType: number;
 	rpcUrl: string;
 	privateKey?: string;
 	funderAddress?: string;
+	/** Directory for local state that must survive restarts (executions, triggers) */
+	stateDir: string;
 };
 
 export const POLYGON_ADDRESSES = {
@@ -24,6 +31,11 @@ export function getConfig(overrides: Partial<BaseConfig> = {}): BaseConfig {
 		process.env.CLOB_API_BASE ??
 		"https://clob.polymarket.com";
 
+	const wsUrl =
+		overrides.wsUrl ??
+		process.env.CLOB_WS_URL ??
+		"wss://ws-subscriptions-clob.polymarket.com/ws/market";
+
 	const chainId = Number(overrides.chainId ?? process.env.CHAIN_ID ?? 137);
 
 	const signatureType = Number(
@@ -41,12 +53,83 @@ export function getConfig(overrides: Partial<BaseConfig> = {}): BaseConfig {
 		process.env.POLYMARKET_FUNDER ??
 		process.env.FUNDER_ADDRESS;
 
+	const stateDir =
+		overrides.stateDir ??
+		process.env.POLYMARKET_STATE_DIR ??
+		join(homedir(), ".mcp-polymarket");
+
 	return {
 		host,
+		wsUrl,
 		chainId,
 		signatureType,
 		rpcUrl,
 		privateKey,
 		funderAddress,
+		stateDir,
+	};
+}
+
+export type RiskLimits = {
+	/** Max USDC notional of a single order */
+	maxOrderNotional?: number;
+	/** Max USDC exposure (position value + new order) in a single market */
+	maxMarketExposure?: number;
+	/** Max USDC exposure (position value + new order) across an event's markets */
+	maxEventExposure?: number;
+	/** Max number of simultaneously open orders */
+	maxOpenOrders?: number;
+	/** Max realized loss in USDC since 00:00 UTC before new orders are refused */
+	maxDailyLoss?: number;
+	/** If non-empty, only these markets may be traded (token ID, condition ID, market slug or event slug) */
+	marketAllowlist: string[];
+	/** Markets that may never be traded (token ID, condition ID, market slug or event slug) */
+	marketDenylist: string[];
+};
+
+function parseOptionalNumber(value: string | undefined): number | undefined {
+	if (value === undefined || value.trim() === "") return undefined;
+	const parsed = Number(value);
+	if (Number.isNaN(parsed)) {
+		throw new Error(`Invalid numeric risk limit: ${value}`);
+	}
+	return parsed;
+}
+
+function parseList(value: string | undefined): string[] {
+	if (!value) return [];
+	return value
+		.split(",")
+		.map((entry) => entry.trim().toLowerCase())
+		.filter(Boolean);
+}
+
+/**
+ * Builds risk limits from environment variables and optional overrides.
+ * Unset limits are not enforced.
+ */
+export function getRiskLimits(overrides: Partial<RiskLimits> = {}): RiskLimits {
+	return {
+		maxOrderNotional:
+			overrides.maxOrderNotional ??
+			parseOptionalNumber(process.env.RISK_MAX_ORDER_NOTIONAL),
+		maxMarketExposure:
+			overrides.maxMarketExposure ??
+			parseOptionalNumber(process.env.RISK_MAX_MARKET_EXPOSURE),
+		maxEventExposure:
+			overrides.maxEventExposure ??
+			parseOptionalNumber(process.env.RISK_MAX_EVENT_EXPOSURE),
+		maxOpenOrders:
+			overrides.maxOpenOrders ??
+			parseOptionalNumber(process.env.RISK_MAX_OPEN_ORDERS),
+		maxDailyLoss:
+			overrides.maxDailyLoss ??
+			parseOptionalNumber(process.env.RISK_MAX_DAILY_LOSS),
+		marketAllowlist:
+			overrides.marketAllowlist?.map((entry) => entry.toLowerCase()) ??
+			parseList(process.env.RISK_MARKET_ALLOWLIST),
+		marketDenylist:
+			overrides.marketDenylist?.map((entry) => entry.toLowerCase()) ??
+			parseList(process.env.RISK_MARKET_DENYLIST),
 	};
 }
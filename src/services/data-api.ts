@@ -0,0 +1,163 @@
+/**
+ * Polymarket Data API client
+ * Read-only wallet data (positions, activity) used by tools and risk checks
+ */
+
+export const DATA_API_URL = "https://data-api.polymarket.com";
+
+export interface DataApiPosition {
+	proxyWallet: string;
+	asset: string;
+	conditionId: string;
+	size: number;
+	avgPrice: number;
+	initialValue: number;
+	currentValue: number;
+	cashPnl: number;
+	percentPnl: number;
+	totalBought: number;
+	realizedPnl: number;
+	percentRealizedPnl: number;
+	curPrice: number;
+	redeemable: boolean;
+	mergeable: boolean;
+	title: string;
+	slug: string;
+	icon?: string;
+	eventSlug?: string;
+	outcome: string;
+	outcomeIndex: number;
+	oppositeOutcome: string;
+	oppositeAsset: string;
+	endDate?: string;
+	negativeRisk: boolean;
+}
+
+/**
+ * Fetch one page of positions for a wallet, either active or redeemable ones
+ */
+export async function fetchPositions(
+	user: string,
+	limit: number,
+	redeemable: boolean,
+	offset = 0,
+): Promise<DataApiPosition[]> {
+	const params = new URLSearchParams({
+		user,
+		limit: limit.toString(),
+		redeemable: redeemable.toString(),
+		offset: offset.toString(),
+	});
+
+	const response = await fetch(`${DATA_API_URL}/positions?${params}`);
+
+	if (!response.ok) {
+		throw new Error(
+			`Data API request failed: ${response.status} ${response.statusText}`,
+		);
+	}
+
+	return response.json();
+}
+
+// Positions requested per page when fetching all of them
+const POSITION_PAGE_SIZE = 500;
+
+/**
+ * Page through the Data API until it runs out of positions
+ */
+export async function fetchAllPositions(
+	user: string,
+	redeemable: boolean,
+): Promise<DataApiPosition[]> {
+	const positions = new Map<string, DataApiPosition>();
+	for (let offset = 0; ; offset += POSITION_PAGE_SIZE) {
+		const page = await fetchPositions(
+			user,
+			POSITION_PAGE_SIZE,
+			redeemable,
+			offset,
+		);
+		const before = positions.size;
+		for (const p of page) positions.set(p.asset, p);
+		// A short page is the last; a page of repeats means the offset was ignored
+		if (page.length < POSITION_PAGE_SIZE || positions.size === before) {
+			return [...positions.values()];
+		}
+	}
+}
+
+export const ACTIVITY_TYPES = [
+	"TRADE",
+	"SPLIT",
+	"MERGE",
+	"REDEEM",
+	"REWARD",
+	"CONVERSION",
+] as const;
+
+export type ActivityType = (typeof ACTIVITY_TYPES)[number];
+
+export interface DataApiActivity {
+	proxyWallet: string;
+	/** Unix seconds */
+	timestamp: number;
+	conditionId: string;
+	type: ActivityType;
+	/** Shares (tokens) moved */
+	size: number;
+	usdcSize: number;
+	transactionHash: string;
+	price?: number;
+	asset?: string;
+	side?: "BUY" | "SELL" | "";
+	outcomeIndex?: number;
+	title?: string;
+	slug?: string;
+	eventSlug?: string;
+	outcome?: string;
+}
+
+export interface ActivityQuery {
+	limit: number;
+	offset?: number;
+	types?: ActivityType[];
+	/** Condition IDs */
+	markets?: string[];
+	/** Unix seconds */
+	start?: number;
+	/** Unix seconds */
+	end?: number;
+	sortDirection?: "ASC" | "DESC";
+}
+
+/**
+ * Fetch a page of on-chain activity for a wallet (trades, splits, merges,
+ * redemptions, rewards and conversions), ordered by time
+ */
+export async function fetchActivity(
+	user: string,
+	query: ActivityQuery,
+): Promise<DataApiActivity[]> {
+	const params = new URLSearchParams({
+		user,
+		limit: query.limit.toString(),
+		offset: (query.offset ?? 0).toString(),
+		sortBy: "TIMESTAMP",
+		sortDirection: query.sortDirection ?? "DESC",
+	});
+	if (query.types?.length) params.set("type", query.types.join(","));
+	if (query.markets?.length) params.set("market", query.markets.join(","));
+	if (query.start !== undefined) params.set("start", query.start.toString());
+	if (query.end !== undefined) params.set("end", query.end.toString());
+
+	const response = await fetch(`${DATA_API_URL}/activity?${params}`);
+
+	if (!response.ok) {
+		throw new Error(
+			`Data API request failed: ${response.status} ${response.statusText}`,
+		);
+	}
+
+	return response.json();
+}
@@ -0,0 +1,129 @@
+/**
+ * Event Overview
+ * Summarizes a multi-outcome event: one row per outcome with live prices,
+ * plus the implied probability book (sum of YES prices and overround)
+ */
+
+import { api, type GammaEventRef, type GammaMarketRef } from "./api.js";
+import { round } from "./orderbook.js";
+
+export interface EventOutcome {
+	name: string;
+	marketSlug: string;
+	conditionId: string;
+	yesTokenId: string | null;
+	noTokenId: string | null;
+	bestBid: number | null;
+	bestAsk: number | null;
+	midpoint: number | null;
+	volume: number | null;
+	/** Midpoint divided by the sum of midpoints across open outcomes */
+	normalizedProbability: number | null;
+	closed: boolean;
+}
+
+export interface EventOverview {
+	slug: string;
+	title: string | null;
+	endDate: string | null;
+	negRisk: boolean;
+	outcomeCount: number;
+	/** Sum of YES midpoints across open outcomes (1 in a perfectly efficient book); null when any is unpriced */
+	sumYesPrices: number | null;
+	/** Cost of buying one YES share of every open outcome at the best ask */
+	sumBestAsks: number | null;
+	/** Proceeds of selling one YES share of every open outcome at the best bid */
+	sumBestBids: number | null;
+	/** sumYesPrices - 1: positive means the book is overpriced */
+	overround: number | null;
+	/** Open outcomes without a midpoint, which leave the sums above null */
+	unpricedOutcomes: string[];
+	outcomes: EventOutcome[];
+}
+
+/**
+ * Build an overview of an event. Prices come live from the CLOB in two
+ * batch requests; closed outcomes are listed but left out of the sums.
+ */
+export async function getEventOverview(slug: string): Promise<EventOverview> {
+	const event = (await api.getEventBySlug(slug)) as GammaEventRef | null;
+	if (!event) {
+		throw new Error(`Event not found: ${slug}`);
+	}
+
+	const markets = event.markets ?? [];
+	const yesTokens = markets
+		.map((m) => parseTokenIds(m)[0])
+		.filter((t): t is string => !!t);
+	const [prices, midpoints] =
+		yesTokens.length > 0
+			? await Promise.all([
+					api.getPrices(yesTokens),
+					api.getMidpoints(yesTokens),
+				])
+			: [{}, {}];
+
+	const outcomes = markets.map((market): EventOutcome => {
+		const [yesTokenId = null, noTokenId = null] = parseTokenIds(market);
+		const price = yesTokenId ? prices[yesTokenId] : undefined;
+		return {
+			name: market.groupItemTitle || market.question || market.slug,
+			marketSlug: market.slug,
+			conditionId: market.conditionId,
+			yesTokenId,
+			noTokenId,
+			bestBid: price?.BUY ?? null,
+			bestAsk: price?.SELL ?? null,
+			midpoint: yesTokenId ? (midpoints[yesTokenId] ?? null) : null,
+			volume: market.volumeNum ?? null,
+			normalizedProbability: null,
+			closed: market.closed === true || market.active === false,
+		};
+	});
+
+	const open = outcomes.filter((o) => !o.closed);
+	const sumYesPrices = sumIfComplete(open.map((o) => o.midpoint));
+	for (const outcome of open) {
+		if (
+			outcome.midpoint !== null &&
+			sumYesPrices !== null &&
+			sumYesPrices > 0
+		) {
+			outcome.normalizedProbability = round(outcome.midpoint / sumYesPrices, 4);
+		}
+	}
+
+	return {
+		slug: event.slug,
+		title: event.title ?? null,
+		endDate: event.endDate ?? null,
+		negRisk: event.negRisk ?? false,
+		outcomeCount: outcomes.length,
+		sumYesPrices,
+		sumBestAsks: sumIfComplete(open.map((o) => o.bestAsk)),
+		sumBestBids: sumIfComplete(open.map((o) => o.bestBid)),
+		overround: sumYesPrices !== null ? round(sumYesPrices - 1, 4) : null,
+		unpricedOutcomes: open
+			.filter((o) => o.midpoint === null)
+			.map((o) => o.name),
+		outcomes: outcomes.sort((a, b) => (b.midpoint ?? -1) - (a.midpoint ?? -1)),
+	};
+}
+
+/**
+ * Token IDs of a market, aligned with its outcomes (YES first)
+ */
+export function parseTokenIds(market: GammaMarketRef): string[] {
+	return JSON.parse(market.clobTokenIds ?? "[]") as string[];
+}
+
+/**
+ * Sum of the values, or null if any is missing (an incomplete sum would mislead)
+ */
+function sumIfComplete(values: Array<number | null>): number | null {
+	if (values.length === 0 || values.some((v) => v === null)) return null;
+	return round(
+		values.reduce<number>((sum, v) => sum + (v ?? 0), 0),
+		4,
+	);
+}
@@ -0,0 +1,531 @@
+/**
+ * Execution Engine
+ * Works large parent orders as a series of child orders (TWAP or iceberg).
+ * Parent state is persisted so executions resume after a process restart.
+ */
+
+import { randomUUID } from "node:crypto";
+import { join } from "node:path";
+import type { OpenOrder, OrderResponse } from "@polymarket/clob-client";
+import { JsonFileStore } from "../util/json-store.js";
+import { log } from "../util/log.js";
+import { getConfig } from "./config.js";
+import {
+	getTradingInstance,
+	type PolymarketTrading,
+	PriceProtectionError,
+} from "./trading.js";
+
+// How often the scheduler checks running executions
+const TICK_INTERVAL_MS = 5_000;
+// Child placement failures in a row before the parent is marked FAILED
+const MAX_CONSECUTIVE_FAILURES = 3;
+// Remaining size below this is treated as done (CLOB sizes have 2 decimals)
+const SIZE_EPSILON = 0.01;
+
+export type ExecutionStrategy = "TWAP" | "ICEBERG";
+export type ChildOrderType = "LIMIT" | "MARKET";
+export type ExecutionStatus =
+	| "RUNNING"
+	| "PAUSED"
+	| "COMPLETED"
+	| "CANCELED"
+	| "FAILED";
+
+export interface ChildOrder {
+	orderId?: string;
+	size: number;
+	price: number;
+	placedAt: string;
+	status: "OPEN" | "FILLED" | "CANCELED" | "FAILED";
+	filledSize: number;
+	error?: string;
+}
+
+export interface ParentExecution {
+	id: string;
+	strategy: ExecutionStrategy;
+	tokenId: string;
+	side: "BUY" | "SELL";
+	/** Total shares to trade */
+	totalSize: number;
+	/** Limit price for LIMIT children, worst acceptable price for MARKET children */
+	limitPrice: number;
+	childType: ChildOrderType;
+	// TWAP
+	durationMinutes?: number;
+	slices?: number;
+	slicesPlaced: number;
+	nextSliceAt?: string;
+	// ICEBERG
+	visibleSize?: number;
+	status: ExecutionStatus;
+	filledSize: number;
+	consecutiveFailures: number;
+	error?: string;
+	createdAt: string;
+	updatedAt: string;
+	children: ChildOrder[];
+}
+
+export interface StartExecutionParams {
+	strategy: ExecutionStrategy;
+	tokenId: string;
+	side: "BUY" | "SELL";
+	totalSize: number;
+	limitPrice: number;
+	childType?: ChildOrderType;
+	durationMinutes?: number;
+	slices?: number;
+	visibleSize?: number;
+}
+
+interface ExecutionState {
+	executions: ParentExecution[];
+}
+
+/**
+ * Execution engine class
+ */
+export class ExecutionEngine {
+	private store: JsonFileStore<ExecutionState>;
+	private state: ExecutionState;
+	private timer: NodeJS.Timeout | null = null;
+	private ticking = false;
+	// Per-execution queue: a tick, pause, resume or cancel runs only after the
+	// previous operation on the same execution has finished
+	private locks = new Map<string, Promise<unknown>>();
+
+	constructor(
+		private readonly trading: PolymarketTrading = getTradingInstance(),
+		store?: JsonFileStore<ExecutionState>,
+	) {
+		this.store =
+			store ?? new JsonFileStore(join(getConfig().stateDir, "executions.json"));
+		this.state = this.store.read({ executions: [] });
+	}
+
+	/**
+	 * Start the background scheduler. Executions left RUNNING by a previous
+	 * process pick up where they stopped.
+	 */
+	startScheduler(): void {
+		if (this.timer) return;
+		const running = this.state.executions.filter((e) => e.status === "RUNNING");
+		if (running.length > 0) {
+			log(`Resuming ${running.length} running execution(s)`);
+		}
+		this.timer = setInterval(() => void this.tick(), TICK_INTERVAL_MS);
+		this.timer.unref();
+	}
+
+	/**
+	 * Stop the background scheduler (state is kept)
+	 */
+	stopScheduler(): void {
+		if (this.timer) clearInterval(this.timer);
+		this.timer = null;
+	}
+
+	/**
+	 * Create a parent execution and place its first child immediately
+	 */
+	async createExecution(
+		params: StartExecutionParams,
+	): Promise<ParentExecution> {
+		const childType = params.childType ?? "LIMIT";
+		if (params.strategy === "TWAP") {
+			if (!params.durationMinutes || !params.slices) {
+				throw new Error("TWAP executions require durationMinutes and slices");
+			}
+		} else {
+			if (!params.visibleSize) {
+				throw new Error("ICEBERG executions require visibleSize");
+			}
+			if (childType !== "LIMIT") {
+				throw new Error("ICEBERG executions only support LIMIT child orders");
+			}
+		}
+
+		const now = new Date().toISOString();
+		const parent: ParentExecution = {
+			id: randomUUID(),
+			strategy: params.strategy,
+			tokenId: params.tokenId,
+			side: params.side,
+			totalSize: params.totalSize,
+			limitPrice: params.limitPrice,
+			childType,
+			durationMinutes: params.durationMinutes,
+			slices: params.slices,
+			slicesPlaced: 0,
+			nextSliceAt: params.strategy === "TWAP" ? now : undefined,
+			visibleSize: params.visibleSize,
+			status: "RUNNING",
+			filledSize: 0,
+			consecutiveFailures: 0,
+			createdAt: now,
+			updatedAt: now,
+			children: [],
+		};
+		this.state.executions.push(parent);
+		this.persist();
+
+		await this.withLock(parent.id, () => this.step(parent));
+		this.persist();
+		return parent;
+	}
+
+	/**
+	 * List all executions, most recent first
+	 */
+	listExecutions(status?: ExecutionStatus): ParentExecution[] {
+		return this.state.executions
+			.filter((e) => !status || e.status === status)
+			.reverse();
+	}
+
+	/**
+	 * Get one execution, refreshing fills of its open children
+	 */
+	async getExecution(id: string): Promise<ParentExecution> {
+		const parent = this.find(id);
+		if (parent.children.some((c) => c.status === "OPEN")) {
+			await this.withLock(id, () => this.syncChildren(parent));
+			this.persist();
+		}
+		return parent;
+	}
+
+	/**
+	 * Pause a running execution and pull its resting child order
+	 */
+	async pauseExecution(id: string): Promise<ParentExecution> {
+		const parent = this.find(id);
+		// Waits for an in-flight placement, so its order is known and can be pulled
+		await this.withLock(id, async () => {
+			if (parent.status !== "RUNNING") {
+				throw new Error(`Execution ${id} is ${parent.status}, not RUNNING`);
+			}
+			await this.cancelOpenChildren(parent);
+			this.setStatus(parent, "PAUSED");
+		});
+		this.persist();
+		return parent;
+	}
+
+	/**
+	 * Resume a paused execution; TWAP slices continue from now
+	 */
+	async resumeExecution(id: string): Promise<ParentExecution> {
+		const parent = this.find(id);
+		await this.withLock(id, async () => {
+			if (parent.status !== "PAUSED") {
+				throw new Error(`Execution ${id} is ${parent.status}, not PAUSED`);
+			}
+			this.setStatus(parent, "RUNNING");
+			parent.consecutiveFailures = 0;
+			if (parent.strategy === "TWAP") {
+				parent.nextSliceAt = new Date().toISOString();
+			}
+			await this.step(parent);
+		});
+		this.persist();
+		return parent;
+	}
+
+	/**
+	 * Cancel an execution and any resting child order
+	 */
+	async cancelExecution(id: string): Promise<ParentExecution> {
+		const parent = this.find(id);
+		// Waits for an in-flight placement, so its order is known and can be pulled
+		await this.withLock(id, async () => {
+			if (!isActive(parent)) {
+				throw new Error(`Execution ${id} is already ${parent.status}`);
+			}
+			await this.cancelOpenChildren(parent);
+			this.setStatus(parent, "CANCELED");
+		});
+		this.persist();
+		return parent;
+	}
+
+	/**
+	 * One scheduler pass over all running executions
+	 */
+	private async tick(): Promise<void> {
+		if (this.ticking) return;
+		this.ticking = true;
+		try {
+			for (const parent of this.state.executions) {
+				if (parent.status !== "RUNNING") continue;
+				try {
+					await this.advance(parent);
+				} catch (err) {
+					log(
+						`Execution ${parent.id} tick failed: ${err instanceof Error ? err.message : String(err)}`,
+					);
+				}
+			}
+			this.persist();
+		} finally {
+			this.ticking = false;
+		}
+	}
+
+	/**
+	 * Move a running execution forward: refresh fills, then place the next
+	 * child when the strategy calls for one.
+	 */
+	private async advance(parent: ParentExecution): Promise<void> {
+		// A tool call is working on this execution; the next tick picks it up
+		if (parent.status !== "RUNNING" || this.locks.has(parent.id)) return;
+		await this.withLock(parent.id, async () => {
+			if (parent.status === "RUNNING") await this.step(parent);
+		});
+	}
+
+	/**
+	 * Run `fn` once every earlier operation on the execution has settled
+	 */
+	private async withLock<T>(id: string, fn: () => Promise<T>): Promise<T> {
+		const previous = this.locks.get(id) ?? Promise.resolve();
+		const current = previous.catch(() => {}).then(fn);
+		this.locks.set(id, current);
+		try {
+			return await current;
+		} finally {
+			if (this.locks.get(id) === current) this.locks.delete(id);
+		}
+	}
+
+	private async step(parent: ParentExecution): Promise<void> {
+		await this.syncChildren(parent);
+
+		if (parent.totalSize - parent.filledSize < SIZE_EPSILON) {
+			await this.cancelOpenChildren(parent);
+			this.setStatus(parent, "COMPLETED");
+			return;
+		}
+
+		if (parent.strategy === "ICEBERG") {
+			if (parent.children.some((c) => c.status === "OPEN")) return;
+			const remaining = parent.totalSize - parent.filledSize;
+			await this.placeChild(
+				parent,
+				Math.min(parent.visibleSize ?? remaining, remaining),
+			);
+			return;
+		}
+
+		// TWAP: each slice replaces the previous slice's unfilled remainder
+		if (Date.now() < Date.parse(parent.nextSliceAt ?? "")) return;
+		await this.cancelOpenChildren(parent);
+
+		const slices = parent.slices ?? 1;
+		const remaining = parent.totalSize - parent.filledSize;
+		if (parent.slicesPlaced >= slices || remaining < SIZE_EPSILON) {
+			// Schedule finished; whatever did not fill is left unfilled
+			this.setStatus(parent, "COMPLETED");
+			return;
+		}
+
+		const slicesLeft = slices - parent.slicesPlaced;
+		const size =
+			slicesLeft === 1
+				? remaining
+				: Math.floor((remaining / slicesLeft) * 100) / 100;
+		await this.placeChild(parent, size);
+		parent.slicesPlaced++;
+
+		const intervalMs = ((parent.durationMinutes ?? 0) * 60_000) / slices;
+		parent.nextSliceAt = new Date(Date.now() + intervalMs).toISOString();
+	}
+
+	/**
+	 * Place one child order through the trading service
+	 */
+	private async placeChild(
+		parent: ParentExecution,
+		size: number,
+	): Promise<void> {
+		const roundedSize = Math.round(size * 100) / 100;
+		const child: ChildOrder = {
+			size: roundedSize,
+			price: parent.limitPrice,
+			placedAt: new Date().toISOString(),
+			status: "OPEN",
+			filledSize: 0,
+		};
+		parent.children.push(child);
+
+		try {
+			if (parent.childType === "LIMIT") {
+				const response = (await this.trading.placeOrder({
+					tokenId: parent.tokenId,
+					price: parent.limitPrice,
+					size: roundedSize,
+					side: parent.side,
+				})) as OrderResponse;
+				if (!response?.success || !response.orderID) {
+					throw new Error(response?.errorMsg || "Order was not accepted");
+				}
+				child.orderId = response.orderID;
+			} else {
+				// FAK market child bounded by the limit price; BUY amounts are in USDC
+				const response = (await this.trading.placeMarketOrder({
+					tokenId: parent.tokenId,
+					side: parent.side,
+					orderType: "FAK",
+					amount:
+						parent.side === "BUY"
+							? Math.floor(roundedSize * parent.limitPrice * 100) / 100
+							: roundedSize,
+					...(parent.side === "BUY"
+						? { maxPrice: parent.limitPrice }
+						: { minPrice: parent.limitPrice }),
+				})) as OrderResponse;
+				if (!response?.success) {
+					throw new Error(response?.errorMsg || "Order was not accepted");
+				}
+				child.orderId = response.orderID || undefined;
+				child.filledSize =
+					Number(
+						parent.side === "BUY"
+							? response.takingAmount
+							: response.makingAmount,
+					) || 0;
+				child.status =
+					child.filledSize >= roundedSize - SIZE_EPSILON
+						? "FILLED"
+						: "CANCELED";
+			}
+			parent.consecutiveFailures = 0;
+		} catch (err) {
+			const message = err instanceof Error ? err.message : String(err);
+			if (err instanceof PriceProtectionError) {
+				// Nothing fillable within the limit right now; not a failure
+				child.status = "CANCELED";
+				child.error = message;
+			} else {
+				child.status = "FAILED";
+				child.error = message;
+				parent.consecutiveFailures++;
+				if (parent.consecutiveFailures >= MAX_CONSECUTIVE_FAILURES) {
+					parent.error = message;
+					this.setStatus(parent, "FAILED");
+				}
+			}
+		}
+
+		// The parent may have been stopped while the order was in flight
+		if (parent.status !== "RUNNING" && child.status === "OPEN") {
+			await this.cancelOpenChildren(parent);
+		}
+		this.updateFilled(parent);
+	}
+
+	/**
+	 * Refresh fill state of open LIMIT children from the CLOB
+	 */
+	private async syncChildren(parent: ParentExecution): Promise<void> {
+		for (const child of parent.children) {
+			if (child.status !== "OPEN") continue;
+			if (!child.orderId) {
+				// Placement never returned an order ID (e.g. the process stopped
+				// mid-request); nothing to track, and it must not block the parent
+				child.status = "FAILED";
+				child.error ??= "Placement did not complete";
+				continue;
+			}
+			const order = (await this.trading.getOrder(child.orderId)) as OpenOrder;
+			if (!order) continue;
+			child.filledSize = Number(order.size_matched) || 0;
+			const status = order.status?.toUpperCase();
+			if (
+				child.filledSize >= child.size - SIZE_EPSILON ||
+				status === "MATCHED"
+			) {
+				child.status = "FILLED";
+			} else if (status === "CANCELED" || status === "CANCELLED") {
+				child.status = "CANCELED";
+			}
+		}
+		this.updateFilled(parent);
+	}
+
+	/**
+	 * Cancel resting children and capture any fills that landed before the cancel
+	 */
+	private async cancelOpenChildren(parent: ParentExecution): Promise<void> {
+		const open = parent.children.filter(
+			(c) => c.status === "OPEN" && c.orderId,
+		);
+		if (open.length === 0) return;
+		await this.trading.cancelOrders(open.map((c) => c.orderId as string));
+		await this.syncChildren(parent);
+		for (const child of open) {
+			if (child.status === "OPEN") child.status = "CANCELED";
+		}
+		this.updateFilled(parent);
+	}
+
+	private updateFilled(parent: ParentExecution): void {
+		parent.filledSize =
+			Math.round(
+				parent.children.reduce((sum, c) => sum + c.filledSize, 0) * 100,
+			) / 100;
+		parent.updatedAt = new Date().toISOString();
+	}
+
+	private setStatus(parent: ParentExecution, status: ExecutionStatus): void {
+		parent.status = status;
+		parent.updatedAt = new Date().toISOString();
+		log(`Execution ${parent.id} ${status}`);
+	}
+
+	private find(id: string): ParentExecution {
+		const parent = this.state.executions.find((e) => e.id === id);
+		if (!parent) {
+			throw new Error(`Execution ${id} not found`);
+		}
+		return parent;
+	}
+
+	private persist(): void {
+		this.store.write(this.state);
+	}
+}
+
+function isActive(parent: ParentExecution): boolean {
+	return parent.status === "RUNNING" || parent.status === "PAUSED";
+}
+
+// Singleton instance
+let executionInstance: ExecutionEngine | null = null;
+
+/**
+ * Get or create the execution engine instance
+ */
+export function getExecutionInstance(): ExecutionEngine {
+	if (!executionInstance) {
+		executionInstance = new ExecutionEngine();
+	}
+	return executionInstance;
+}
+
+// Lazy proxy facade for easy consumption
+export const executionApi: ExecutionEngine = new Proxy({} as ExecutionEngine, {
+	get(_target, prop, _receiver) {
+		const instance = getExecutionInstance() as unknown as Record<
+			string | symbol,
+			unknown
+		>;
+		const value = instance[prop as keyof ExecutionEngine] as unknown;
+		if (typeof value === "function") {
+			return value.bind(instance);
+		}
+		return value;
+	},
+});
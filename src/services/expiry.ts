@@ -0,0 +1,102 @@
+/**
+ * GTD Expiry Resolution
+ * Turns user-facing expiry input into the `expiration` field the CLOB expects
+ */
+
+// The CLOB treats an order as expired one minute before its `expiration`,
+// so that minute is added on top of the requested lifetime.
+export const GTD_EXPIRY_BUFFER_SECONDS = 60;
+
+const DURATION_UNITS: Record<string, number> = {
+	s: 1,
+	m: 60,
+	h: 3_600,
+	d: 86_400,
+	w: 604_800,
+};
+
+const MARKET_END_INPUTS = new Set([
+	"market_end",
+	"market end",
+	"until market end",
+	"end",
+]);
+
+export interface ResolvedExpiry {
+	/** Value signed into the order (unix seconds, includes the CLOB buffer) */
+	expiration: number;
+	/** When the order stops being matchable */
+	expiresAt: string;
+	/** How the input was interpreted */
+	source: "duration" | "timestamp" | "market_end";
+	marketEndDate?: string;
+}
+
+/**
+ * Resolve an expiry given as a duration ("90m", "2h", "1d"), an absolute
+ * timestamp (unix seconds or ISO 8601) or "until market end".
+ * The result must lie after the CLOB server time and no later than market end.
+ */
+export function resolveGtdExpiry(
+	input: string,
+	serverTime: number,
+	marketEndDate?: string,
+): ResolvedExpiry {
+	const value = input.trim().toLowerCase();
+	const marketEnd = marketEndDate
+		? Math.floor(Date.parse(marketEndDate) / 1000)
+		: undefined;
+
+	let target: number;
+	let source: ResolvedExpiry["source"];
+	const duration = value.match(/^(\d+(?:\.\d+)?)\s*([smhdw])$/);
+
+	if (MARKET_END_INPUTS.has(value)) {
+		if (marketEnd === undefined || Number.isNaN(marketEnd)) {
+			throw new Error("Market end date is unknown; give an explicit expiry");
+		}
+		target = marketEnd;
+		source = "market_end";
+	} else if (duration) {
+		target =
+			serverTime +
+			Math.round(Number(duration[1]) * DURATION_UNITS[duration[2]]);
+		source = "duration";
+	} else if (/^\d+$/.test(value)) {
+		const numeric = Number(value);
+		// Accept milliseconds as well as seconds
+		target = numeric > 1e12 ? Math.floor(numeric / 1000) : numeric;
+		source = "timestamp";
+	} else {
+		const parsed = Date.parse(input.trim());
+		if (Number.isNaN(parsed)) {
+			throw new Error(
+				`Invalid expiry "${input}". Use a duration like "2h", a unix/ISO timestamp, or "until market end".`,
+			);
+		}
+		target = Math.floor(parsed / 1000);
+		source = "timestamp";
+	}
+
+	if (target <= serverTime) {
+		throw new Error(
+			`Expiry ${new Date(target * 1000).toISOString()} is not in the future (server time ${new Date(serverTime * 1000).toISOString()})`,
+		);
+	}
+	if (
+		marketEnd !== undefined &&
+		!Number.isNaN(marketEnd) &&
+		target > marketEnd
+	) {
+		throw new Error(
+			`Expiry ${new Date(target * 1000).toISOString()} is after the market end date ${marketEndDate}`,
+		);
+	}
+
+	return {
+		expiration: target + GTD_EXPIRY_BUFFER_SECONDS,
+		expiresAt: new Date(target * 1000).toISOString(),
+		source,
+		...(marketEndDate && { marketEndDate }),
+	};
+}
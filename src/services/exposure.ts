@@ -0,0 +1,330 @@
+/**
+ * Position Exposure
+ * Groups Data API positions by event, tag or end date with concentration
+ * percentages, and computes worst/best case payouts per event. Outcomes of a
+ * neg-risk event are mutually exclusive, so only one of its markets can pay YES.
+ */
+
+import { api, type GammaEventRef } from "./api.js";
+import type { DataApiPosition } from "./data-api.js";
+import { round } from "./orderbook.js";
+
+export const EXPOSURE_GROUPS = ["event", "tag", "endDate"] as const;
+
+export type ExposureGroupBy = (typeof EXPOSURE_GROUPS)[number];
+
+// End-date buckets, nearest first: label and upper bound in days from now
+const END_DATE_BUCKETS: Array<[string, number]> = [
+	["within 1 day", 1],
+	["within 1 week", 7],
+	["within 1 month", 30],
+	["within 3 months", 90],
+];
+
+const DAY_MS = 24 * 60 * 60_000;
+
+export interface ExposureGroup {
+	key: string;
+	positions: number;
+	value: number;
+	cashPnl: number;
+	/** Share of total position value, in percent */
+	sharePct: number;
+}
+
+export interface EventExposure {
+	eventSlug: string;
+	negRisk: boolean;
+	positions: number;
+	value: number;
+	/** Amount paid for the positions */
+	cost: number;
+	sharePct: number;
+	/** Lowest total payout over the event's possible outcomes */
+	worstCasePayout: number;
+	bestCasePayout: number;
+	worstCasePnl: number;
+	bestCasePnl: number;
+	/** Winning outcome in the worst and best case */
+	worstCase: string;
+	bestCase: string;
+}
+
+export interface ExposureSummary {
+	totalValue: number;
+	totalCost: number;
+	/** Sums over events, treating events as independent */
+	worstCasePayout: number;
+	bestCasePayout: number;
+	largestEvent: string | null;
+	largestEventSharePct: number;
+	events: EventExposure[];
+}
+
+interface Scenario {
+	label: string;
+	payout: number;
+}
+
+/**
+ * Group positions and compute each group's share of total value. With tags a
+ * position counts toward every tag of its event, so shares can exceed 100%.
+ */
+export async function groupPositions(
+	positions: DataApiPosition[],
+	by: ExposureGroupBy,
+): Promise<ExposureGroup[]> {
+	const keysFor =
+		by === "tag"
+			? await tagKeys(positions)
+			: (p: DataApiPosition) => [
+					by === "event" ? eventKey(p) : endDateBucket(p.endDate),
+				];
+
+	const total = sumValue(positions);
+	const groups = new Map<string, ExposureGroup>();
+	for (const position of positions) {
+		for (const key of keysFor(position)) {
+			const group = groups.get(key) ?? {
+				key,
+				positions: 0,
+				value: 0,
+				cashPnl: 0,
+				sharePct: 0,
+			};
+			group.positions++;
+			group.value += Number(position.currentValue) || 0;
+			group.cashPnl += Number(position.cashPnl) || 0;
+			groups.set(key, group);
+		}
+	}
+
+	return [...groups.values()]
+		.map((g) => ({
+			...g,
+			value: round(g.value, 2),
+			cashPnl: round(g.cashPnl, 2),
+			sharePct: percent(g.value, total),
+		}))
+		.sort((a, b) => b.value - a.value);
+}
+
+/**
+ * Concentration and worst/best case payouts per event
+ */
+export async function summarizeExposure(
+	positions: DataApiPosition[],
+): Promise<ExposureSummary> {
+	const byEvent = new Map<string, DataApiPosition[]>();
+	for (const position of positions) {
+		const key = eventKey(position);
+		byEvent.set(key, [...(byEvent.get(key) ?? []), position]);
+	}
+
+	const totalValue = sumValue(positions);
+	const events = await Promise.all(
+		[...byEvent.entries()].map(([slug, group]) =>
+			eventExposure(slug, group, totalValue),
+		),
+	);
+	events.sort((a, b) => b.value - a.value);
+
+	return {
+		totalValue: round(totalValue, 2),
+		totalCost: round(
+			positions.reduce((sum, p) => sum + (Number(p.initialValue) || 0), 0),
+			2,
+		),
+		worstCasePayout: round(
+			events.reduce((sum, e) => sum + e.worstCasePayout, 0),
+			2,
+		),
+		bestCasePayout: round(
+			events.reduce((sum, e) => sum + e.bestCasePayout, 0),
+			2,
+		),
+		largestEvent: events[0]?.eventSlug ?? null,
+		largestEventSharePct: events[0]?.sharePct ?? 0,
+		events,
+	};
+}
+
+async function eventExposure(
+	eventSlug: string,
+	positions: DataApiPosition[],
+	totalValue: number,
+): Promise<EventExposure> {
+	const negRisk = positions.some((p) => p.negativeRisk);
+	const scenarios = negRisk
+		? await negRiskScenarios(eventSlug, positions)
+		: independentScenarios(positions);
+	const cost = positions.reduce(
+		(sum, p) => sum + (Number(p.initialValue) || 0),
+		0,
+	);
+	const value = sumValue(positions);
+	const worst = scenarios.reduce((a, b) => (b.payout < a.payout ? b : a));
+	const best = scenarios.reduce((a, b) => (b.payout > a.payout ? b : a));
+
+	return {
+		eventSlug,
+		negRisk,
+		positions: positions.length,
+		value: round(value, 2),
+		cost: round(cost, 2),
+		sharePct: percent(value, totalValue),
+		worstCasePayout: round(worst.payout, 2),
+		bestCasePayout: round(best.payout, 2),
+		worstCasePnl: round(worst.payout - cost, 2),
+		bestCasePnl: round(best.payout - cost, 2),
+		worstCase: worst.label,
+		bestCase: best.label,
+	};
+}
+
+/**
+ * Exactly one market of a neg-risk event resolves YES: its YES shares pay out
+ * along with the NO shares of every other market. If the event has markets we
+ * hold nothing in, one of those may win instead and only NO shares pay.
+ */
+async function negRiskScenarios(
+	eventSlug: string,
+	positions: DataApiPosition[],
+): Promise<Scenario[]> {
+	const { settled, open } = splitSettled(positions);
+	const byMarket = new Map<
+		string,
+		{ title: string; yes: number; no: number }
+	>();
+	for (const p of open) {
+		const market = byMarket.get(p.conditionId) ?? {
+			title: p.title,
+			yes: 0,
+			no: 0,
+		};
+		if (p.outcomeIndex === 0) market.yes += Number(p.size) || 0;
+		else market.no += Number(p.size) || 0;
+		byMarket.set(p.conditionId, market);
+	}
+
+	const allNo = [...byMarket.values()].reduce((sum, m) => sum + m.no, 0);
+	const scenarios: Scenario[] = [...byMarket.values()].map((m) => ({
+		label: `${m.title} wins`,
+		payout: settled + m.yes + allNo - m.no,
+	}));
+	if (await hasOtherOpenMarkets(eventSlug, byMarket)) {
+		scenarios.push({ label: "another outcome wins", payout: settled + allNo });
+	}
+	return scenarios.length > 0
+		? scenarios
+		: [{ label: "settled", payout: settled }];
+}
+
+/**
+ * Markets of a regular event resolve independently, so the worst case loses
+ * every market and the best case wins every market
+ */
+function independentScenarios(positions: DataApiPosition[]): Scenario[] {
+	const { settled, open } = splitSettled(positions);
+	const byMarket = new Map<string, Map<number, number>>();
+	for (const p of open) {
+		const outcomes = byMarket.get(p.conditionId) ?? new Map<number, number>();
+		outcomes.set(
+			p.outcomeIndex,
+			(outcomes.get(p.outcomeIndex) ?? 0) + (Number(p.size) || 0),
+		);
+		byMarket.set(p.conditionId, outcomes);
+	}
+
+	let worst = settled;
+	let best = settled;
+	for (const outcomes of byMarket.values()) {
+		// Binary markets: the outcome we hold nothing of may win
+		const payouts = [0, 1].map((i) => outcomes.get(i) ?? 0);
+		worst += Math.min(...payouts);
+		best += Math.max(...payouts);
+	}
+	return [
+		{ label: "every held market resolves against us", payout: worst },
+		{ label: "every held market resolves in our favor", payout: best },
+	];
+}
+
+/**
+ * Redeemable positions are already resolved and pay their current value
+ */
+function splitSettled(positions: DataApiPosition[]): {
+	settled: number;
+	open: DataApiPosition[];
+} {
+	return {
+		settled: sumValue(positions.filter((p) => p.redeemable)),
+		open: positions.filter((p) => !p.redeemable),
+	};
+}
+
+async function hasOtherOpenMarkets(
+	eventSlug: string,
+	held: Map<string, unknown>,
+): Promise<boolean> {
+	try {
+		const event = (await api.getEventBySlug(eventSlug)) as GammaEventRef | null;
+		if (!event?.markets) return true;
+		return event.markets.some(
+			(m) => m.closed !== true && !held.has(m.conditionId),
+		);
+	} catch {
+		// Unknown event shape: assume another outcome can win (conservative)
+		return true;
+	}
+}
+
+/**
+ * Build a lookup from position to the labels of its event's tags
+ */
+async function tagKeys(
+	positions: DataApiPosition[],
+): Promise<(p: DataApiPosition) => string[]> {
+	const slugs = [
+		...new Set(
+			positions.map((p) => p.eventSlug).filter((s): s is string => !!s),
+		),
+	];
+	const tagsByEvent = new Map(
+		await Promise.all(
+			slugs.map(async (slug): Promise<[string, string[]]> => {
+				const event = (await api
+					.getEventBySlug(slug)
+					.catch(() => null)) as GammaEventRef | null;
+				const labels = (event?.tags ?? [])
+					.map((t) => t.label ?? t.slug)
+					.filter((l): l is string => !!l);
+				return [slug, labels];
+			}),
+		),
+	);
+	return (p) => {
+		const labels = p.eventSlug ? tagsByEvent.get(p.eventSlug) : undefined;
+		return labels?.length ? labels : ["untagged"];
+	};
+}
+
+function eventKey(position: DataApiPosition): string {
+	return position.eventSlug || position.slug;
+}
+
+function endDateBucket(endDate: string | undefined): string {
+	const end = endDate ? Date.parse(endDate) : Number.NaN;
+	if (Number.isNaN(end)) return "unknown";
+	const days = (end - Date.now()) / DAY_MS;
+	if (days < 0) return "ended";
+	return END_DATE_BUCKETS.find(([, max]) => days <= max)?.[0] ?? "later";
+}
+
+function sumValue(positions: DataApiPosition[]): number {
+	return positions.reduce((sum, p) => sum + (Number(p.currentValue) || 0), 0);
+}
+
+function percent(part: number, total: number): number {
+	return total > 0 ? round((part / total) * 100, 2) : 0;
+}
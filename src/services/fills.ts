@@ -0,0 +1,61 @@
+/**
+ * Account Fills
+ * Extracts the account's own side of CLOB trades, which differs from the
+ * trade's top-level fields when the account was the maker
+ */
+
+import type { Trade } from "@polymarket/clob-client";
+
+/**
+ * One fill from the account's point of view
+ */
+export interface OwnFill {
+	tradeId: string;
+	assetId: string;
+	conditionId: string;
+	outcome: string;
+	side: "BUY" | "SELL";
+	price: number;
+	size: number;
+	feeRateBps: number;
+	/** Unix seconds */
+	timestamp: number;
+}
+
+/**
+ * Fills belonging to the account in a trade. Takers get the trade itself;
+ * makers get their own orders from maker_orders, which carry their own side
+ * and price.
+ */
+export function getOwnFills(trade: Trade, ownAddresses: string[]): OwnFill[] {
+	const base = {
+		tradeId: trade.id,
+		conditionId: trade.market,
+		timestamp: Number(trade.match_time),
+	};
+	if (trade.trader_side === "TAKER") {
+		return [
+			{
+				...base,
+				assetId: trade.asset_id,
+				outcome: trade.outcome,
+				side: trade.side as OwnFill["side"],
+				price: Number(trade.price),
+				size: Number(trade.size),
+				feeRateBps: Number(trade.fee_rate_bps) || 0,
+			},
+		];
+	}
+	const own = ownAddresses.map((a) => a.toLowerCase());
+	return (trade.maker_orders ?? [])
+		.filter((mo) => own.includes(mo.maker_address.toLowerCase()))
+		.map((mo) => ({
+			...base,
+			assetId: mo.asset_id,
+			outcome: mo.outcome,
+			side: mo.side as OwnFill["side"],
+			price: Number(mo.price),
+			size: Number(mo.matched_amount),
+			feeRateBps: Number(mo.fee_rate_bps) || 0,
+		}));
+}
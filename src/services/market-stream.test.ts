@@ -0,0 +1,181 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+	type MarketSocket,
+	MarketStream,
+	type TopOfBookUpdate,
+} from "./market-stream.js";
+
+const TOKEN = "123";
+
+/**
+ * In-memory socket: records what the stream sends and lets the test push frames
+ */
+class FakeSocket implements MarketSocket {
+	readyState = 0;
+	sent: unknown[] = [];
+	onopen: ((event: unknown) => void) | null = null;
+	onmessage: ((event: { data: unknown }) => void) | null = null;
+	onclose: ((event: unknown) => void) | null = null;
+	onerror: ((event: unknown) => void) | null = null;
+
+	send(data: string): void {
+		this.sent.push(data === "PING" ? data : JSON.parse(data));
+	}
+
+	close(): void {
+		this.readyState = 3;
+	}
+
+	open(): void {
+		this.readyState = 1;
+		this.onopen?.({});
+	}
+
+	receive(message: unknown): void {
+		this.onmessage?.({ data: JSON.stringify(message) });
+	}
+}
+
+function connectedStream(): {
+	stream: MarketStream;
+	socket: FakeSocket;
+	updates: TopOfBookUpdate[];
+} {
+	const sockets: FakeSocket[] = [];
+	const stream = new MarketStream({
+		url: "wss://example.test/ws/market",
+		createSocket: () => {
+			const socket = new FakeSocket();
+			sockets.push(socket);
+			return socket;
+		},
+	});
+	const updates: TopOfBookUpdate[] = [];
+	stream.on("topOfBook", (update: TopOfBookUpdate) => updates.push(update));
+	stream.subscribe([TOKEN]);
+	sockets[0].open();
+	return { stream, socket: sockets[0], updates };
+}
+
+describe("MarketStream", () => {
+	it("subscribes to the market channel once connected", () => {
+		const { stream, socket } = connectedStream();
+		assert.deepEqual(socket.sent, [{ assets_ids: [TOKEN], type: "market" }]);
+		assert.equal(stream.isConnected(), true);
+		stream.close();
+	});
+
+	it("builds the local book from a book snapshot", () => {
+		const { stream, socket, updates } = connectedStream();
+		socket.receive({
+			event_type: "book",
+			asset_id: TOKEN,
+			market: "0xabc",
+			timestamp: "1700000000000",
+			bids: [
+				{ price: "0.48", size: "100" },
+				{ price: "0.50", size: "20" },
+			],
+			asks: [
+				{ price: "0.55", size: "30" },
+				{ price: "0.53", size: "10" },
+			],
+		});
+
+		const snapshot = stream.getSnapshot(TOKEN);
+		assert.equal(snapshot.hasBook, true);
+		assert.equal(snapshot.market, "0xabc");
+		assert.deepEqual(snapshot.bids, [
+			{ price: 0.5, size: 20 },
+			{ price: 0.48, size: 100 },
+		]);
+		assert.deepEqual(snapshot.asks, [
+			{ price: 0.53, size: 10 },
+			{ price: 0.55, size: 30 },
+		]);
+		assert.equal(updates.length, 1);
+		assert.equal(updates[0].bestBid, 0.5);
+		assert.equal(updates[0].bestAsk, 0.53);
+		assert.equal(updates[0].midpoint, 0.515);
+		assert.equal(updates[0].spread, 0.03);
+		stream.close();
+	});
+
+	it("applies price_change deltas and emits only when the top moves", () => {
+		const { stream, socket, updates } = connectedStream();
+		socket.receive({
+			event_type: "book",
+			asset_id: TOKEN,
+			bids: [{ price: "0.50", size: "20" }],
+			asks: [{ price: "0.53", size: "10" }],
+		});
+
+		// Deeper level: the book changes, the top does not
+		socket.receive({
+			event_type: "price_change",
+			market: "0xabc",
+			price_changes: [
+				{ asset_id: TOKEN, price: "0.45", size: "5", side: "BUY" },
+			],
+		});
+		assert.equal(updates.length, 1);
+
+		// "0.5" and "0.50" address the same level; size 0 removes it
+		socket.receive({
+			event_type: "price_change",
+			market: "0xabc",
+			price_changes: [
+				{ asset_id: TOKEN, price: "0.5", size: "0", side: "BUY" },
+				{ asset_id: TOKEN, price: "0.52", size: "7", side: "SELL" },
+			],
+		});
+
+		const snapshot = stream.getSnapshot(TOKEN);
+		assert.deepEqual(snapshot.bids, [{ price: 0.45, size: 5 }]);
+		assert.deepEqual(snapshot.asks, [
+			{ price: 0.52, size: 7 },
+			{ price: 0.53, size: 10 },
+		]);
+		assert.equal(updates.length, 2);
+		assert.equal(updates[1].bestBid, 0.45);
+		assert.equal(updates[1].bestAsk, 0.52);
+		stream.close();
+	});
+
+	it("accepts the legacy price_change format with asset_id per message", () => {
+		const { stream, socket } = connectedStream();
+		socket.receive([
+			{
+				event_type: "book",
+				asset_id: TOKEN,
+				bids: [{ price: "0.40", size: "1" }],
+				asks: [],
+			},
+			{
+				event_type: "price_change",
+				asset_id: TOKEN,
+				changes: [{ price: "0.60", size: "3", side: "SELL" }],
+			},
+		]);
+
+		assert.deepEqual(stream.getSnapshot(TOKEN).asks, [{ price: 0.6, size: 3 }]);
+		stream.close();
+	});
+
+	it("ignores frames for tokens that are not subscribed", () => {
+		const { stream, socket, updates } = connectedStream();
+		socket.receive({
+			event_type: "book",
+			asset_id: "999",
+			bids: [{ price: "0.10", size: "1" }],
+			asks: [],
+		});
+		socket.onmessage?.({ data: "PONG" });
+
+		assert.equal(updates.length, 0);
+		assert.equal(stream.getSnapshot(TOKEN).hasBook, false);
+		assert.throws(() => stream.getSnapshot("999"), /not subscribed/);
+		stream.close();
+	});
+});
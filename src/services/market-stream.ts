@@ -0,0 +1,457 @@
+/**
+ * Market Data Stream
+ * Websocket client for the CLOB market channel. Keeps a local order book per
+ * subscribed token, updated from `book` snapshots and `price_change` deltas,
+ * and emits `topOfBook` whenever a token's best bid or ask moves.
+ */
+
+import { EventEmitter } from "node:events";
+import { log } from "../util/log.js";
+import { getConfig } from "./config.js";
+import { type BookLevel, round } from "./orderbook.js";
+
+// The market channel drops idle connections; it expects a text PING
+const PING_INTERVAL_MS = 10_000;
+const RECONNECT_BASE_MS = 1_000;
+const RECONNECT_MAX_MS = 30_000;
+// WebSocket readyState for an open connection
+const OPEN = 1;
+
+/**
+ * Minimal websocket surface used by the stream. The global WebSocket (Node 22+)
+ * satisfies it, as does a local stand-in in tests.
+ */
+export interface MarketSocket {
+	readonly readyState: number;
+	send(data: string): void;
+	close(): void;
+	onopen: ((event: unknown) => void) | null;
+	onmessage: ((event: { data: unknown }) => void) | null;
+	onclose: ((event: unknown) => void) | null;
+	onerror: ((event: unknown) => void) | null;
+}
+
+export interface MarketStreamOptions {
+	url?: string;
+	createSocket?: (url: string) => MarketSocket;
+}
+
+export interface TopOfBookUpdate {
+	tokenId: string;
+	market: string | null;
+	bestBid: number | null;
+	bestAsk: number | null;
+	midpoint: number | null;
+	spread: number | null;
+	timestamp: string;
+}
+
+export interface BookSnapshot extends TopOfBookUpdate {
+	/** False until the first full book arrives for the token */
+	hasBook: boolean;
+	connected: boolean;
+	lastTradePrice: number | null;
+	bids: BookLevel[];
+	asks: BookLevel[];
+}
+
+interface LocalBook {
+	market: string | null;
+	hasBook: boolean;
+	/** Size keyed by price string, so deltas hit the exact level */
+	bids: Map<string, number>;
+	asks: Map<string, number>;
+	lastTradePrice: number | null;
+	updatedAt: number | null;
+	lastTop: { bestBid: number | null; bestAsk: number | null };
+}
+
+interface RawLevel {
+	price: string;
+	size: string;
+}
+
+interface RawPriceChange {
+	asset_id?: string;
+	price: string;
+	size: string;
+	side: string;
+}
+
+interface RawMessage {
+	event_type?: string;
+	asset_id?: string;
+	market?: string;
+	timestamp?: string;
+	// book
+	bids?: RawLevel[];
+	asks?: RawLevel[];
+	buys?: RawLevel[];
+	sells?: RawLevel[];
+	// price_change: current format carries asset_id per change, legacy per message
+	price_changes?: RawPriceChange[];
+	changes?: RawPriceChange[];
+	// last_trade_price
+	price?: string;
+}
+
+/**
+ * Market channel client class
+ */
+export class MarketStream extends EventEmitter {
+	private readonly url: string;
+	private readonly createSocket: (url: string) => MarketSocket;
+	private socket: MarketSocket | null = null;
+	private books = new Map<string, LocalBook>();
+	private pingTimer: NodeJS.Timeout | null = null;
+	private reconnectTimer: NodeJS.Timeout | null = null;
+	private reconnectAttempts = 0;
+
+	constructor(options: MarketStreamOptions = {}) {
+		super();
+		this.url = options.url ?? getConfig().wsUrl;
+		this.createSocket = options.createSocket ?? defaultSocketFactory;
+	}
+
+	/**
+	 * Start streaming tokens. Connects on first use; already subscribed tokens are skipped.
+	 */
+	subscribe(tokenIds: string[]): { added: string[]; subscribed: string[] } {
+		const added = [...new Set(tokenIds)].filter((id) => !this.books.has(id));
+		for (const tokenId of added) {
+			this.books.set(tokenId, emptyBook());
+		}
+
+		if (added.length > 0) {
+			if (this.isConnected()) {
+				this.send({ assets_ids: added, operation: "subscribe" });
+			} else if (!this.socket && !this.reconnectTimer) {
+				try {
+					this.connect();
+				} catch (err) {
+					for (const tokenId of added) this.books.delete(tokenId);
+					throw err;
+				}
+			}
+		}
+		return { added, subscribed: this.getSubscriptions() };
+	}
+
+	/**
+	 * Stop streaming the given tokens (all tokens when omitted). The connection
+	 * is closed once nothing is subscribed.
+	 */
+	unsubscribe(tokenIds?: string[]): {
+		removed: string[];
+		subscribed: string[];
+	} {
+		const removed = (tokenIds ?? this.getSubscriptions()).filter((id) =>
+			this.books.delete(id),
+		);
+		if (removed.length > 0 && this.isConnected() && this.books.size > 0) {
+			this.send({ assets_ids: removed, operation: "unsubscribe" });
+		}
+		if (this.books.size === 0) {
+			this.close();
+		}
+		return { removed, subscribed: this.getSubscriptions() };
+	}
+
+	getSubscriptions(): string[] {
+		return [...this.books.keys()];
+	}
+
+	isConnected(): boolean {
+		return this.socket?.readyState === OPEN;
+	}
+
+	/**
+	 * Current local book for a subscribed token, best levels first
+	 */
+	getSnapshot(tokenId: string, depth = 10): BookSnapshot {
+		const book = this.books.get(tokenId);
+		if (!book) {
+			throw new Error(
+				`Token ${tokenId} is not subscribed. Call subscribe_market_data first.`,
+			);
+		}
+		return {
+			...this.getTop(tokenId, book),
+			hasBook: book.hasBook,
+			connected: this.isConnected(),
+			lastTradePrice: book.lastTradePrice,
+			bids: sortLevels(book.bids, "bids").slice(0, depth),
+			asks: sortLevels(book.asks, "asks").slice(0, depth),
+		};
+	}
+
+	/**
+	 * Drop the connection without reconnecting (subscriptions are kept in memory)
+	 */
+	close(): void {
+		if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+		this.reconnectTimer = null;
+		this.stopPing();
+		const socket = this.socket;
+		this.socket = null;
+		if (socket) {
+			socket.onclose = null;
+			socket.close();
+		}
+	}
+
+	private connect(): void {
+		const socket = this.createSocket(this.url);
+		this.socket = socket;
+
+		socket.onopen = () => {
+			this.reconnectAttempts = 0;
+			log(`Market stream connected (${this.books.size} token(s))`);
+			this.send({ assets_ids: this.getSubscriptions(), type: "market" });
+			this.startPing();
+		};
+		socket.onmessage = (event) => this.handleMessage(String(event.data));
+		socket.onerror = () => {
+			// A close event always follows; reconnection is handled there
+		};
+		socket.onclose = () => {
+			this.socket = null;
+			this.stopPing();
+			if (this.books.size > 0) this.scheduleReconnect();
+		};
+	}
+
+	private scheduleReconnect(): void {
+		const delay = Math.min(
+			RECONNECT_BASE_MS * 2 ** this.reconnectAttempts,
+			RECONNECT_MAX_MS,
+		);
+		this.reconnectAttempts++;
+		log(`Market stream disconnected, reconnecting in ${delay}ms`);
+		this.reconnectTimer = setTimeout(() => {
+			this.reconnectTimer = null;
+			if (this.books.size > 0) this.connect();
+		}, delay);
+		this.reconnectTimer.unref();
+	}
+
+	private startPing(): void {
+		this.stopPing();
+		this.pingTimer = setInterval(() => {
+			if (this.isConnected()) this.socket?.send("PING");
+		}, PING_INTERVAL_MS);
+		this.pingTimer.unref();
+	}
+
+	private stopPing(): void {
+		if (this.pingTimer) clearInterval(this.pingTimer);
+		this.pingTimer = null;
+	}
+
+	private send(payload: unknown): void {
+		this.socket?.send(JSON.stringify(payload));
+	}
+
+	/**
+	 * Apply one websocket frame. Frames are a single event or an array of events;
+	 * non-JSON frames (PONG) are ignored.
+	 */
+	private handleMessage(data: string): void {
+		let parsed: RawMessage | RawMessage[];
+		try {
+			parsed = JSON.parse(data);
+		} catch {
+			return;
+		}
+		const messages = Array.isArray(parsed) ? parsed : [parsed];
+		const touched = new Set<string>();
+
+		for (const message of messages) {
+			switch (message.event_type) {
+				case "book":
+					if (message.asset_id && this.applyBook(message)) {
+						touched.add(message.asset_id);
+					}
+					break;
+				case "price_change":
+					for (const tokenId of this.applyPriceChanges(message)) {
+						touched.add(tokenId);
+					}
+					break;
+				case "last_trade_price": {
+					const book = message.asset_id && this.books.get(message.asset_id);
+					if (book && message.price !== undefined) {
+						book.lastTradePrice = Number(message.price);
+					}
+					break;
+				}
+			}
+		}
+
+		for (const tokenId of touched) {
+			this.emitTopIfChanged(tokenId);
+		}
+	}
+
+	private applyBook(message: RawMessage): boolean {
+		const book = message.asset_id && this.books.get(message.asset_id);
+		if (!book) return false;
+		book.market = message.market ?? book.market;
+		book.bids = toLevelMap(message.bids ?? message.buys ?? []);
+		book.asks = toLevelMap(message.asks ?? message.sells ?? []);
+		book.hasBook = true;
+		book.updatedAt = toMillis(message.timestamp);
+		return true;
+	}
+
+	private applyPriceChanges(message: RawMessage): string[] {
+		const changes = message.price_changes ?? message.changes ?? [];
+		const touched: string[] = [];
+		for (const change of changes) {
+			const tokenId = change.asset_id ?? message.asset_id;
+			const book = tokenId && this.books.get(tokenId);
+			if (!tokenId || !book) continue;
+
+			const levels =
+				change.side.toUpperCase() === "BUY" ? book.bids : book.asks;
+			const size = Number(change.size);
+			const key = normalizePrice(change.price);
+			if (size > 0) {
+				levels.set(key, size);
+			} else {
+				levels.delete(key);
+			}
+			book.market = message.market ?? book.market;
+			book.updatedAt = toMillis(message.timestamp);
+			touched.push(tokenId);
+		}
+		return touched;
+	}
+
+	private emitTopIfChanged(tokenId: string): void {
+		const book = this.books.get(tokenId);
+		if (!book) return;
+		const top = this.getTop(tokenId, book);
+		if (
+			top.bestBid === book.lastTop.bestBid &&
+			top.bestAsk === book.lastTop.bestAsk
+		) {
+			return;
+		}
+		book.lastTop = { bestBid: top.bestBid, bestAsk: top.bestAsk };
+		this.emit("topOfBook", top);
+	}
+
+	private getTop(tokenId: string, book: LocalBook): TopOfBookUpdate {
+		const bestBid = bestPrice(book.bids, "bids");
+		const bestAsk = bestPrice(book.asks, "asks");
+		const both = bestBid !== null && bestAsk !== null;
+		return {
+			tokenId,
+			market: book.market,
+			bestBid,
+			bestAsk,
+			midpoint: both ? round((bestBid + bestAsk) / 2) : null,
+			spread: both ? round(bestAsk - bestBid) : null,
+			timestamp: new Date(book.updatedAt ?? Date.now()).toISOString(),
+		};
+	}
+}
+
+/**
+ * Whether the runtime has a global WebSocket to stream with (Node 22 or newer)
+ */
+export function hasWebSocketSupport(): boolean {
+	return typeof globalThis.WebSocket === "function";
+}
+
+function defaultSocketFactory(url: string): MarketSocket {
+	if (!hasWebSocketSupport()) {
+		throw new Error(
+			"Live market data requires a Node.js runtime with a global WebSocket (Node 22 or newer)",
+		);
+	}
+	return new globalThis.WebSocket(url) as unknown as MarketSocket;
+}
+
+function emptyBook(): LocalBook {
+	return {
+		market: null,
+		hasBook: false,
+		bids: new Map(),
+		asks: new Map(),
+		lastTradePrice: null,
+		updatedAt: null,
+		lastTop: { bestBid: null, bestAsk: null },
+	};
+}
+
+// "0.50" and "0.5" must address the same level
+function normalizePrice(price: string): string {
+	return String(Number(price));
+}
+
+function toLevelMap(levels: RawLevel[]): Map<string, number> {
+	const map = new Map<string, number>();
+	for (const level of levels) {
+		const size = Number(level.size);
+		if (size > 0) map.set(normalizePrice(level.price), size);
+	}
+	return map;
+}
+
+function sortLevels(
+	levels: Map<string, number>,
+	side: "bids" | "asks",
+): BookLevel[] {
+	return [...levels]
+		.map(([price, size]) => ({ price: Number(price), size }))
+		.sort((a, b) => (side === "bids" ? b.price - a.price : a.price - b.price));
+}
+
+function bestPrice(
+	levels: Map<string, number>,
+	side: "bids" | "asks",
+): number | null {
+	let best: number | null = null;
+	for (const key of levels.keys()) {
+		const price = Number(key);
+		if (best === null || (side === "bids" ? price > best : price < best)) {
+			best = price;
+		}
+	}
+	return best;
+}
+
+function toMillis(timestamp: string | undefined): number {
+	const value = Number(timestamp);
+	return Number.isFinite(value) && value > 0 ? value : Date.now();
+}
+
+// Singleton instance
+let marketStreamInstance: MarketStream | null = null;
+
+/**
+ * Get or create the market stream instance
+ */
+export function getMarketStreamInstance(): MarketStream {
+	if (!marketStreamInstance) {
+		marketStreamInstance = new MarketStream();
+	}
+	return marketStreamInstance;
+}
+
+// Lazy proxy facade for easy consumption
+export const marketStream: MarketStream = new Proxy({} as MarketStream, {
+	get(_target, prop, _receiver) {
+		const instance = getMarketStreamInstance() as unknown as Record<
+			string | symbol,
+			unknown
+		>;
+		const value = instance[prop as keyof MarketStream] as unknown;
+		if (typeof value === "function") {
+			return value.bind(instance);
+		}
+		return value;
+	},
+});
@@ -0,0 +1,320 @@
+/**
+ * Order Book Math
+ * Pure helpers for walking a CLOB order book and estimating fills
+ */
+
+import type { OrderBookSummary } from "@polymarket/clob-client";
+
+export interface BookLevel {
+	price: number;
+	size: number;
+}
+
+export interface FillEstimate {
+	/** Shares that would be matched against resting liquidity */
+	filledSize: number;
+	/** USDC exchanged for the matched shares, before fees */
+	totalCost: number;
+	/** Volume-weighted average fill price (null when nothing fills) */
+	avgPrice: number | null;
+	/** Price of the last level touched (null when nothing fills) */
+	worstPrice: number | null;
+	levelsConsumed: number;
+	fullyFilled: boolean;
+}
+
+export interface FillTarget {
+	/** Number of outcome shares to fill */
+	shares?: number;
+	/** USDC amount to fill (used for market BUY orders) */
+	notional?: number;
+	/** Levels priced beyond this limit are never consumed */
+	limitPrice?: number;
+}
+
+export interface FillSimulation extends FillEstimate {
+	side: "BUY" | "SELL";
+	bestBid: number | null;
+	bestAsk: number | null;
+	midpoint: number | null;
+	feeRateBps: number;
+	/** Estimated fee in USDC for the filled portion */
+	fees: number;
+	/** Adverse slippage of avgPrice versus midpoint, in basis points */
+	slippageBps: number | null;
+}
+
+/**
+ * Round to a fixed number of decimals to strip floating point noise from output
+ */
+export function round(value: number, decimals = 6): number {
+	const factor = 10 ** decimals;
+	return Math.round(value * factor) / factor;
+}
+
+/**
+ * Snap a price onto the tick grid. Rounding is done in tick units to avoid
+ * floating point drift (e.g. 0.29 / 0.01 = 28.999999999999996).
+ */
+export function roundToTick(
+	price: number,
+	tickSize: string,
+	direction: "up" | "down" | "nearest" = "nearest",
+): number {
+	const tick = Number(tickSize);
+	const decimals = tickSize.split(".")[1]?.length ?? 0;
+	const ticks = round(price / tick, 9);
+	const snapped =
+		direction === "up"
+			? Math.ceil(ticks)
+			: direction === "down"
+				? Math.floor(ticks)
+				: Math.round(ticks);
+	return round(snapped * tick, decimals);
+}
+
+/**
+ * Parse one side of the book, dropping empty levels and sorting best price first.
+ * The CLOB does not guarantee ordering, so never rely on the raw array order.
+ */
+export function getLevels(
+	book: OrderBookSummary,
+	side: "bids" | "asks",
+): BookLevel[] {
+	const levels = (book[side] ?? [])
+		.map((level) => ({ price: Number(level.price), size: Number(level.size) }))
+		.filter((level) => level.size > 0);
+	return levels.sort((a, b) =>
+		side === "bids" ? b.price - a.price : a.price - b.price,
+	);
+}
+
+/**
+ * Best bid, best ask and midpoint of a book (null when a side is empty)
+ */
+export function getTopOfBook(book: OrderBookSummary): {
+	bestBid: number | null;
+	bestAsk: number | null;
+	midpoint: number | null;
+} {
+	const bestBid = getLevels(book, "bids")[0]?.price ?? null;
+	const bestAsk = getLevels(book, "asks")[0]?.price ?? null;
+	const midpoint =
+		bestBid !== null && bestAsk !== null ? (bestBid + bestAsk) / 2 : null;
+	return { bestBid, bestAsk, midpoint };
+}
+
+/**
+ * Walk levels best-first until the target is met or liquidity runs out.
+ * BUY orders consume asks up to `limitPrice`, SELL orders consume bids down to it.
+ */
+export function walkBook(
+	levels: BookLevel[],
+	side: "BUY" | "SELL",
+	target: FillTarget,
+): FillEstimate {
+	let filledSize = 0;
+	let totalCost = 0;
+	let worstPrice: number | null = null;
+	let levelsConsumed = 0;
+	const byNotional = target.shares === undefined;
+	const goal = (byNotional ? target.notional : target.shares) ?? 0;
+
+	for (const level of levels) {
+		const remaining = byNotional ? goal - totalCost : goal - filledSize;
+		if (remaining <= 1e-9) break;
+		if (target.limitPrice !== undefined) {
+			const beyondLimit =
+				side === "BUY"
+					? level.price > target.limitPrice
+					: level.price < target.limitPrice;
+			if (beyondLimit) break;
+		}
+
+		const take = byNotional
+			? Math.min(level.size, remaining / level.price)
+			: Math.min(level.size, remaining);
+		filledSize += take;
+		totalCost += take * level.price;
+		worstPrice = level.price;
+		levelsConsumed++;
+	}
+
+	const achieved = byNotional ? totalCost : filledSize;
+	return {
+		filledSize: round(filledSize),
+		totalCost: round(totalCost),
+		avgPrice: filledSize > 0 ? round(totalCost / filledSize) : null,
+		worstPrice,
+		levelsConsumed,
+		fullyFilled: goal > 0 && goal - achieved <= 1e-9,
+	};
+}
+
+/**
+ * Polymarket fee for a fill: baseRate * min(price, 1 - price) * size
+ */
+export function estimateFee(
+	price: number,
+	size: number,
+	feeRateBps: number,
+): number {
+	return (feeRateBps / 10_000) * Math.min(price, 1 - price) * size;
+}
+
+/**
+ * Simulate an order against the current book without touching the exchange.
+ */
+export function simulateFill(
+	book: OrderBookSummary,
+	side: "BUY" | "SELL",
+	target: FillTarget,
+	feeRateBps = 0,
+): FillSimulation {
+	const levels = getLevels(book, side === "BUY" ? "asks" : "bids");
+	const estimate = walkBook(levels, side, target);
+	const { bestBid, bestAsk, midpoint } = getTopOfBook(book);
+
+	let slippageBps: number | null = null;
+	if (estimate.avgPrice !== null && midpoint) {
+		const diff =
+			side === "BUY"
+				? estimate.avgPrice - midpoint
+				: midpoint - estimate.avgPrice;
+		slippageBps = round((diff / midpoint) * 10_000, 2);
+	}
+
+	return {
+		side,
+		...estimate,
+		bestBid,
+		bestAsk,
+		midpoint,
+		feeRateBps,
+		fees:
+			estimate.avgPrice !== null
+				? round(estimateFee(estimate.avgPrice, estimate.filledSize, feeRateBps))
+				: 0,
+		slippageBps,
+	};
+}
+
+export interface DepthBand {
+	/** Levels priced within this many cents of the midpoint */
+	withinCents: number;
+	bidShares: number;
+	bidNotional: number;
+	askShares: number;
+	askNotional: number;
+	/** (bid - ask) / (bid + ask) in shares: +1 all bids, -1 all asks */
+	imbalance: number | null;
+}
+
+export interface BookAnalytics {
+	bestBid: number | null;
+	bestAsk: number | null;
+	midpoint: number | null;
+	spread: number | null;
+	spreadBps: number | null;
+	levels: { bids: number; asks: number };
+	depth: DepthBand[];
+	imbalance: { topOfBook: number | null; total: number | null };
+	/** Cost of filling `size` shares on each side (present when a size is given) */
+	vwap?: {
+		size: number;
+		buy: VwapSummary;
+		sell: VwapSummary;
+	};
+}
+
+export interface VwapSummary {
+	avgPrice: number | null;
+	worstPrice: number | null;
+	filledSize: number;
+	totalCost: number;
+	fullyFilled: boolean;
+	slippageBps: number | null;
+}
+
+/**
+ * Pre-computed order book summary: spread, depth bands around the midpoint,
+ * imbalance, and the VWAP of filling a given size on each side.
+ */
+export function analyzeBook(
+	book: OrderBookSummary,
+	options: { depthCents: number[]; size?: number },
+): BookAnalytics {
+	const bids = getLevels(book, "bids");
+	const asks = getLevels(book, "asks");
+	const { bestBid, bestAsk, midpoint } = getTopOfBook(book);
+	const spread =
+		bestBid !== null && bestAsk !== null ? round(bestAsk - bestBid) : null;
+
+	const depth = options.depthCents.map((cents) => {
+		// Without a midpoint, measure each side from its own best price
+		const bidFloor = (midpoint ?? bestBid ?? 0) - cents / 100;
+		const askCeiling = (midpoint ?? bestAsk ?? 1) + cents / 100;
+		const inBids = bids.filter((l) => l.price >= bidFloor - 1e-9);
+		const inAsks = asks.filter((l) => l.price <= askCeiling + 1e-9);
+		const bidShares = sumSize(inBids);
+		const askShares = sumSize(inAsks);
+		return {
+			withinCents: cents,
+			bidShares: round(bidShares),
+			bidNotional: round(sumNotional(inBids)),
+			askShares: round(askShares),
+			askNotional: round(sumNotional(inAsks)),
+			imbalance: imbalance(bidShares, askShares),
+		};
+	});
+
+	const analytics: BookAnalytics = {
+		bestBid,
+		bestAsk,
+		midpoint: midpoint !== null ? round(midpoint) : null,
+		spread,
+		spreadBps:
+			spread !== null && midpoint
+				? round((spread / midpoint) * 10_000, 2)
+				: null,
+		levels: { bids: bids.length, asks: asks.length },
+		depth,
+		imbalance: {
+			topOfBook: imbalance(bids[0]?.size ?? 0, asks[0]?.size ?? 0),
+			total: imbalance(sumSize(bids), sumSize(asks)),
+		},
+	};
+
+	if (options.size !== undefined) {
+		const summarize = (side: "BUY" | "SELL"): VwapSummary => {
+			const sim = simulateFill(book, side, { shares: options.size });
+			return {
+				avgPrice: sim.avgPrice,
+				worstPrice: sim.worstPrice,
+				filledSize: sim.filledSize,
+				totalCost: sim.totalCost,
+				fullyFilled: sim.fullyFilled,
+				slippageBps: sim.slippageBps,
+			};
+		};
+		analytics.vwap = {
+			size: options.size,
+			buy: summarize("BUY"),
+			sell: summarize("SELL"),
+		};
+	}
+
+	return analytics;
+}
+
+function sumSize(levels: BookLevel[]): number {
+	return levels.reduce((sum, l) => sum + l.size, 0);
+}
+
+function sumNotional(levels: BookLevel[]): number {
+	return levels.reduce((sum, l) => sum + l.size * l.price, 0);
+}
+
+function imbalance(bid: number, ask: number): number | null {
+	return bid + ask > 0 ? round((bid - ask) / (bid + ask), 4) : null;
+}
@@ -0,0 +1,362 @@
+/**
+ * P&L Engine
+ * Rebuilds cost basis from the account's CLOB fills (FIFO or average cost)
+ * so realized and unrealized P&L can be reproduced independently of the
+ * Data API
+ */
+
+import type { Trade } from "@polymarket/clob-client";
+import { api } from "./api.js";
+import { parseTokenIds } from "./events.js";
+import { getOwnFills, type OwnFill } from "./fills.js";
+import { estimateFee, round } from "./orderbook.js";
+import { parseTimestamp } from "./price-history.js";
+import { tradeApi } from "./trading.js";
+
+export type CostBasisMethod = "fifo" | "average";
+
+// Trades in these states never settled on-chain
+const FAILED_TRADE_STATUSES = new Set(["FAILED"]);
+
+export interface TokenPnl {
+	tokenId: string;
+	conditionId: string;
+	outcome: string;
+	/** Shares held at the end of the range */
+	position: number;
+	/** Cost of the shares still held */
+	costBasis: number;
+	avgCost: number | null;
+	boughtSize: number;
+	soldSize: number;
+	realizedPnl: number;
+	fees: number;
+	/** Payout per share for resolved markets, else the current midpoint (null when unavailable) */
+	markPrice: number | null;
+	marketValue: number | null;
+	unrealizedPnl: number | null;
+	/** Shares sold beyond the recorded buys (e.g. from splits or transfers); no P&L is booked for them */
+	unmatchedSellSize: number;
+}
+
+export interface PnlTotals {
+	costBasis: number;
+	marketValue: number | null;
+	realizedPnl: number;
+	unrealizedPnl: number | null;
+	fees: number;
+	/** realized + unrealized - fees (null when any open position is unmarked) */
+	netPnl: number | null;
+}
+
+export interface MarketPnl extends PnlTotals {
+	conditionId: string;
+	slug: string | null;
+	question: string | null;
+}
+
+export interface PnlReport {
+	method: CostBasisMethod;
+	/** ISO 8601, null when open-ended */
+	start: string | null;
+	end: string | null;
+	fillsInRange: number;
+	totals: PnlTotals;
+	markets: MarketPnl[];
+	tokens: TokenPnl[];
+	notes: string[];
+}
+
+export interface PnlOptions {
+	method: CostBasisMethod;
+	/** Unix seconds; only sells and fees from this time on are counted */
+	start?: number;
+	/** Unix seconds; fills after this time are ignored */
+	end?: number;
+}
+
+interface Lot {
+	size: number;
+	price: number;
+}
+
+interface TokenLedger {
+	pnl: TokenPnl;
+	lots: Lot[];
+	activeInRange: boolean;
+}
+
+/**
+ * Replay fills in time order and compute per-token P&L. Buys before `start`
+ * still build cost basis; only sells and fees inside the range are counted.
+ * Open positions are left unmarked; see markToMarket.
+ */
+export function computeTokenPnl(
+	fills: OwnFill[],
+	options: PnlOptions,
+): TokenPnl[] {
+	const ledgers = new Map<string, TokenLedger>();
+	const sorted = fills
+		.filter((f) => options.end === undefined || f.timestamp <= options.end)
+		.sort((a, b) => a.timestamp - b.timestamp);
+
+	for (const fill of sorted) {
+		let ledger = ledgers.get(fill.assetId);
+		if (!ledger) {
+			ledger = { pnl: emptyTokenPnl(fill), lots: [], activeInRange: false };
+			ledgers.set(fill.assetId, ledger);
+		}
+		const inRange =
+			options.start === undefined || fill.timestamp >= options.start;
+		if (inRange) {
+			ledger.activeInRange = true;
+			ledger.pnl.fees += estimateFee(fill.price, fill.size, fill.feeRateBps);
+		}
+
+		if (fill.side === "BUY") {
+			ledger.lots.push({ size: fill.size, price: fill.price });
+			ledger.pnl.boughtSize += fill.size;
+			if (options.method === "average") mergeLots(ledger.lots);
+			continue;
+		}
+
+		ledger.pnl.soldSize += fill.size;
+		let remaining = fill.size;
+		while (remaining > 1e-9 && ledger.lots.length > 0) {
+			const lot = ledger.lots[0];
+			const take = Math.min(lot.size, remaining);
+			if (inRange) ledger.pnl.realizedPnl += (fill.price - lot.price) * take;
+			lot.size -= take;
+			remaining -= take;
+			if (lot.size <= 1e-9) ledger.lots.shift();
+		}
+		if (remaining > 1e-9) ledger.pnl.unmatchedSellSize += remaining;
+	}
+
+	return [...ledgers.values()]
+		.filter((l) => l.activeInRange || l.lots.length > 0)
+		.map(({ pnl, lots }) => {
+			const position = lots.reduce((sum, lot) => sum + lot.size, 0);
+			const costBasis = lots.reduce(
+				(sum, lot) => sum + lot.size * lot.price,
+				0,
+			);
+			return {
+				...pnl,
+				position: round(position),
+				costBasis: round(costBasis),
+				avgCost: position > 0 ? round(costBasis / position) : null,
+				boughtSize: round(pnl.boughtSize),
+				soldSize: round(pnl.soldSize),
+				realizedPnl: round(pnl.realizedPnl),
+				fees: round(pnl.fees),
+				// Flat positions are worth nothing and carry no unrealized P&L
+				marketValue: position > 0 ? null : 0,
+				unrealizedPnl: position > 0 ? null : 0,
+				unmatchedSellSize: round(pnl.unmatchedSellSize),
+			};
+		});
+}
+
+/**
+ * Value open positions at the given prices (keyed by token ID). Positions
+ * without a price stay unmarked.
+ */
+export function markToMarket(
+	tokens: TokenPnl[],
+	marks: Record<string, number>,
+): TokenPnl[] {
+	return tokens.map((token) => {
+		const markPrice = marks[token.tokenId];
+		if (token.position <= 0 || markPrice === undefined) return token;
+		const marketValue = markPrice * token.position;
+		return {
+			...token,
+			markPrice,
+			marketValue: round(marketValue),
+			unrealizedPnl: round(marketValue - token.costBasis),
+		};
+	});
+}
+
+/**
+ * Build a P&L report for the configured account over an optional date range
+ */
+export async function getPnlReport(options: {
+	method: CostBasisMethod;
+	/** Unix seconds or ISO 8601 */
+	start?: string;
+	/** Unix seconds or ISO 8601 */
+	end?: string;
+}): Promise<PnlReport> {
+	const start =
+		options.start !== undefined ? parseTimestamp(options.start) : undefined;
+	const end =
+		options.end !== undefined ? parseTimestamp(options.end) : undefined;
+	if (start !== undefined && end !== undefined && start > end) {
+		throw new Error("start must be before end");
+	}
+
+	// Cost basis needs every fill up to the end of the range, not just those inside it
+	const [trades, ownAddresses] = await Promise.all([
+		tradeApi.getTradeHistory(
+			end !== undefined ? { before: end.toString() } : undefined,
+		) as Promise<Trade[]>,
+		tradeApi.getOwnAddresses(),
+	]);
+	const fills = getSettledFills(trades, ownAddresses);
+
+	const notes: string[] = [
+		"Open positions are marked to the current midpoint, even when the range ends in the past.",
+		"Positions in resolved markets are valued at their payout, whether or not they were redeemed.",
+		"Splits, merges and transfers are not trades and are not included.",
+	];
+	const method = options.method;
+	const unmarked = computeTokenPnl(fills, { method, start, end });
+	const heldTokens = unmarked
+		.filter((t) => t.position > 0)
+		.map((t) => t.tokenId);
+	const marks = await getPayoutMarks(heldTokens);
+	const openTokens = heldTokens.filter((t) => marks[t] === undefined);
+	if (openTokens.length > 0) {
+		try {
+			Object.assign(marks, await api.getMidpoints(openTokens));
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			notes.push(
+				`Could not fetch midpoints, positions are unmarked: ${message}`,
+			);
+		}
+	}
+	const tokens = markToMarket(unmarked, marks);
+	if (tokens.some((t) => t.unmatchedSellSize > 0)) {
+		notes.push(
+			"Some sells exceed the recorded buys (unmatchedSellSize); no P&L is booked for those shares.",
+		);
+	}
+
+	const markets = await summarizeMarkets(tokens);
+	return {
+		method,
+		start: start !== undefined ? new Date(start * 1000).toISOString() : null,
+		end: end !== undefined ? new Date(end * 1000).toISOString() : null,
+		fillsInRange: fills.filter(
+			(f) =>
+				(start === undefined || f.timestamp >= start) &&
+				(end === undefined || f.timestamp <= end),
+		).length,
+		totals: sumPnl(tokens),
+		markets,
+		tokens,
+		notes,
+	};
+}
+
+/**
+ * Payout per share of tokens whose market has resolved, from Gamma's final
+ * outcome prices. Redeemed shares are burned on-chain but stay in the fill
+ * ledger, so valuing them at the payout books the redemption proceeds.
+ */
+async function getPayoutMarks(
+	tokenIds: string[],
+): Promise<Record<string, number>> {
+	const marks: Record<string, number> = {};
+	await Promise.all(
+		tokenIds.map(async (tokenId) => {
+			const market = await api.getMarketByTokenId(tokenId).catch(() => null);
+			if (market?.closed !== true) return;
+			const index = parseTokenIds(market).indexOf(tokenId);
+			const prices = JSON.parse(market.outcomePrices ?? "[]") as string[];
+			const payout = Number(prices[index]);
+			if (index >= 0 && prices[index] !== undefined && !Number.isNaN(payout)) {
+				marks[tokenId] = payout;
+			}
+		}),
+	);
+	return marks;
+}
+
+/**
+ * Our fills from trades that did not fail on-chain
+ */
+export function getSettledFills(
+	trades: Trade[],
+	ownAddresses: string[],
+): OwnFill[] {
+	return trades
+		.filter((t) => !FAILED_TRADE_STATUSES.has(t.status))
+		.flatMap((t) => getOwnFills(t, ownAddresses));
+}
+
+/**
+ * Roll token P&L up to markets, with slug and question from Gamma
+ */
+async function summarizeMarkets(tokens: TokenPnl[]): Promise<MarketPnl[]> {
+	const byMarket = new Map<string, TokenPnl[]>();
+	for (const token of tokens) {
+		const group = byMarket.get(token.conditionId) ?? [];
+		group.push(token);
+		byMarket.set(token.conditionId, group);
+	}
+
+	const markets = await Promise.all(
+		[...byMarket.entries()].map(async ([conditionId, group]) => {
+			const market = await api
+				.getMarketByTokenId(group[0].tokenId)
+				.catch(() => null);
+			return {
+				conditionId,
+				slug: market?.slug ?? null,
+				question: market?.question ?? null,
+				...sumPnl(group),
+			};
+		}),
+	);
+	return markets.sort((a, b) => (b.netPnl ?? 0) - (a.netPnl ?? 0));
+}
+
+function sumPnl(tokens: TokenPnl[]): PnlTotals {
+	const sum = (pick: (t: TokenPnl) => number) =>
+		round(tokens.reduce((total, t) => total + pick(t), 0));
+	const unmarked = tokens.some((t) => t.marketValue === null);
+	const realizedPnl = sum((t) => t.realizedPnl);
+	const fees = sum((t) => t.fees);
+	const unrealizedPnl = unmarked ? null : sum((t) => t.unrealizedPnl ?? 0);
+	return {
+		costBasis: sum((t) => t.costBasis),
+		marketValue: unmarked ? null : sum((t) => t.marketValue ?? 0),
+		realizedPnl,
+		unrealizedPnl,
+		fees,
+		netPnl:
+			unrealizedPnl !== null ? round(realizedPnl + unrealizedPnl - fees) : null,
+	};
+}
+
+/**
+ * Collapse all lots into one at the weighted average price
+ */
+function mergeLots(lots: Lot[]): void {
+	const size = lots.reduce((sum, lot) => sum + lot.size, 0);
+	const cost = lots.reduce((sum, lot) => sum + lot.size * lot.price, 0);
+	lots.splice(0, lots.length, { size, price: size > 0 ? cost / size : 0 });
+}
+
+function emptyTokenPnl(fill: OwnFill): TokenPnl {
+	return {
+		tokenId: fill.assetId,
+		conditionId: fill.conditionId,
+		outcome: fill.outcome,
+		position: 0,
+		costBasis: 0,
+		avgCost: null,
+		boughtSize: 0,
+		soldSize: 0,
+		realizedPnl: 0,
+		fees: 0,
+		markPrice: null,
+		marketValue: null,
+		unrealizedPnl: null,
+		unmatchedSellSize: 0,
+	};
+}
@@ -0,0 +1,157 @@
+/**
+ * Price History Math
+ * Pure helpers for aggregating CLOB price history into candles and stats
+ */
+
+import { round } from "./orderbook.js";
+
+/** Raw point from the CLOB prices-history endpoint: unix seconds and price */
+export interface PricePoint {
+	t: number;
+	p: number;
+}
+
+export interface Candle {
+	/** Bucket start (ISO 8601) */
+	time: string;
+	open: number;
+	high: number;
+	low: number;
+	close: number;
+	points: number;
+}
+
+export interface SeriesStats {
+	from: string;
+	to: string;
+	points: number;
+	open: number;
+	close: number;
+	change: number;
+	/** Change relative to the first price, in percent (null when it opened at 0) */
+	changePct: number | null;
+	high: number;
+	low: number;
+	/** Standard deviation of point-to-point price changes, in price units */
+	volatility: number | null;
+}
+
+export const CANDLE_INTERVALS = {
+	"1m": 60,
+	"5m": 300,
+	"15m": 900,
+	"1h": 3_600,
+	"4h": 14_400,
+	"1d": 86_400,
+	"1w": 604_800,
+} as const;
+
+export type CandleInterval = keyof typeof CANDLE_INTERVALS;
+
+/** Lookback windows in seconds (1m = 30 days); max has no fixed length */
+export const PRICE_RANGES = {
+	"1h": 3_600,
+	"6h": 21_600,
+	"1d": 86_400,
+	"1w": 604_800,
+	"1m": 2_592_000,
+	max: null,
+} as const;
+
+export type PriceRange = keyof typeof PRICE_RANGES;
+
+/**
+ * Parse a unix timestamp (seconds or milliseconds) or ISO date into unix seconds
+ */
+export function parseTimestamp(input: string): number {
+	const value = input.trim();
+	if (/^\d+$/.test(value)) {
+		const numeric = Number(value);
+		return numeric > 1e12 ? Math.floor(numeric / 1000) : numeric;
+	}
+	const parsed = Date.parse(value);
+	if (Number.isNaN(parsed)) {
+		throw new Error(
+			`Invalid timestamp "${input}". Use unix seconds or an ISO 8601 date.`,
+		);
+	}
+	return Math.floor(parsed / 1000);
+}
+
+/**
+ * Bucket points into OHLC candles aligned to the interval (UTC)
+ */
+export function toCandles(
+	points: PricePoint[],
+	interval: CandleInterval,
+): Candle[] {
+	const bucketSeconds = CANDLE_INTERVALS[interval];
+	const candles: Candle[] = [];
+	let current: (Candle & { start: number }) | null = null;
+
+	for (const { t, p } of sortPoints(points)) {
+		const start = Math.floor(t / bucketSeconds) * bucketSeconds;
+		if (!current || current.start !== start) {
+			if (current) candles.push(stripStart(current));
+			current = {
+				start,
+				time: new Date(start * 1000).toISOString(),
+				open: p,
+				high: p,
+				low: p,
+				close: p,
+				points: 0,
+			};
+		}
+		current.high = Math.max(current.high, p);
+		current.low = Math.min(current.low, p);
+		current.close = p;
+		current.points++;
+	}
+	if (current) candles.push(stripStart(current));
+	return candles;
+}
+
+/**
+ * Change, range and volatility of a series (null when it is empty)
+ */
+export function summarizeSeries(points: PricePoint[]): SeriesStats | null {
+	const sorted = sortPoints(points);
+	if (sorted.length === 0) return null;
+
+	const first = sorted[0];
+	const last = sorted[sorted.length - 1];
+	const prices = sorted.map((pt) => pt.p);
+	const changes = prices.slice(1).map((p, i) => p - prices[i]);
+
+	let volatility: number | null = null;
+	if (changes.length > 1) {
+		const mean = changes.reduce((sum, c) => sum + c, 0) / changes.length;
+		const variance =
+			changes.reduce((sum, c) => sum + (c - mean) ** 2, 0) /
+			(changes.length - 1);
+		volatility = round(Math.sqrt(variance));
+	}
+
+	return {
+		from: new Date(first.t * 1000).toISOString(),
+		to: new Date(last.t * 1000).toISOString(),
+		points: sorted.length,
+		open: first.p,
+		close: last.p,
+		change: round(last.p - first.p),
+		changePct:
+			first.p > 0 ? round(((last.p - first.p) / first.p) * 100, 2) : null,
+		high: Math.max(...prices),
+		low: Math.min(...prices),
+		volatility,
+	};
+}
+
+function sortPoints(points: PricePoint[]): PricePoint[] {
+	return [...points].sort((a, b) => a.t - b.t);
+}
+
+function stripStart({ start: _start, ...candle }: Candle & { start: number }) {
+	return candle;
+}
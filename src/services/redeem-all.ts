@@ -0,0 +1,185 @@
+/**
+ * Redeem All
+ * Finds every redeemable position of the wallet, checks resolution and
+ * payout on-chain, and redeems each through the CTF or NegRiskAdapter path
+ */
+
+import { type DataApiPosition, fetchAllPositions } from "./data-api.js";
+import { round } from "./orderbook.js";
+import { redemptionApi, TOKEN_DECIMALS } from "./redemption.js";
+
+export type RedemptionStatus =
+	| "ready"
+	| "redeemed"
+	| "failed"
+	| "unresolved"
+	| "nothing_to_redeem"
+	| "no_payout";
+
+/**
+ * One redemption transaction, redeeming every held outcome of a condition:
+ * through the CTF for regular markets, through the NegRiskAdapter with the
+ * YES and NO amounts for neg-risk ones.
+ */
+export interface RedemptionItem {
+	conditionId: string;
+	title: string;
+	slug: string;
+	outcomes: string[];
+	negRisk: boolean;
+	path: "CTF" | "NEG_RISK_ADAPTER";
+	/** On-chain token balance being redeemed */
+	shares: number;
+	/** USDC the resolved payout ratios pay for those shares */
+	expectedUsdc: number;
+	status: RedemptionStatus;
+	txHash?: string;
+	polygonscanUrl?: string;
+	usdcReceived?: number;
+	error?: string;
+}
+
+export interface RedeemAllResult {
+	walletAddress: string;
+	preview: boolean;
+	redeemablePositions: number;
+	redeemed: number;
+	failed: number;
+	skipped: number;
+	expectedUsdc: number;
+	usdcReceived: number;
+	items: RedemptionItem[];
+}
+
+/**
+ * Redeem every redeemable position, one transaction at a time. In preview
+ * mode nothing is sent; each item shows what would be redeemed. Positions
+ * that pay nothing (losing outcomes) are skipped unless includeZeroPayout.
+ */
+export async function redeemAll(options: {
+	preview: boolean;
+	includeZeroPayout?: boolean;
+}): Promise<RedeemAllResult> {
+	const walletAddress = redemptionApi.getWalletAddress();
+	const positions = (await fetchAllPositions(walletAddress, true)).filter(
+		(p) => p.redeemable,
+	);
+
+	const items: RedemptionItem[] = [];
+	for (const group of groupByRedemption(positions)) {
+		const item = await prepareItem(group, options.includeZeroPayout ?? false);
+		// Sequential on purpose: transactions from one signer must not race on nonces
+		if (item.status === "ready" && !options.preview) {
+			await redeemItem(item, group);
+		}
+		items.push(item);
+	}
+
+	const count = (statuses: RedemptionStatus[]) =>
+		items.filter((i) => statuses.includes(i.status)).length;
+	return {
+		walletAddress,
+		preview: options.preview,
+		redeemablePositions: positions.length,
+		redeemed: count(["redeemed"]),
+		failed: count(["failed"]),
+		skipped: count(["unresolved", "nothing_to_redeem", "no_payout"]),
+		expectedUsdc: round(
+			items
+				.filter((i) => i.status === "ready" || i.status === "redeemed")
+				.reduce((sum, i) => sum + i.expectedUsdc, 0),
+			2,
+		),
+		usdcReceived: round(
+			items.reduce((sum, i) => sum + (i.usdcReceived ?? 0), 0),
+			2,
+		),
+		items,
+	};
+}
+
+/**
+ * One group per condition: all its held outcomes are redeemed in one transaction
+ */
+function groupByRedemption(positions: DataApiPosition[]): DataApiPosition[][] {
+	const groups = new Map<string, DataApiPosition[]>();
+	for (const p of positions) {
+		groups.set(p.conditionId, [...(groups.get(p.conditionId) ?? []), p]);
+	}
+	return [...groups.values()];
+}
+
+/**
+ * Check resolution, balances and payout on-chain for one redemption
+ */
+async function prepareItem(
+	group: DataApiPosition[],
+	includeZeroPayout: boolean,
+): Promise<RedemptionItem> {
+	const [first] = group;
+	const negRisk = first.negativeRisk;
+	const item: RedemptionItem = {
+		conditionId: first.conditionId,
+		title: first.title,
+		slug: first.slug,
+		outcomes: group.map((p) => p.outcome),
+		negRisk,
+		path: negRisk ? "NEG_RISK_ADAPTER" : "CTF",
+		shares: 0,
+		expectedUsdc: 0,
+		status: "ready",
+	};
+
+	try {
+		if (!(await redemptionApi.isMarketResolved(first.conditionId))) {
+			return { ...item, status: "unresolved" };
+		}
+		for (const p of group) {
+			const [balance, fraction] = await Promise.all([
+				redemptionApi.getCTFBalance(p.asset),
+				redemptionApi.getPayoutFraction(p.conditionId, p.outcomeIndex),
+			]);
+			const shares = Number(balance) / 10 ** TOKEN_DECIMALS;
+			item.shares += shares;
+			item.expectedUsdc += shares * fraction;
+		}
+		item.shares = round(item.shares);
+		item.expectedUsdc = round(item.expectedUsdc);
+
+		if (item.shares === 0) return { ...item, status: "nothing_to_redeem" };
+		if (item.expectedUsdc === 0 && !includeZeroPayout) {
+			return { ...item, status: "no_payout" };
+		}
+		return item;
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		return { ...item, status: "failed", error: message };
+	}
+}
+
+async function redeemItem(
+	item: RedemptionItem,
+	group: DataApiPosition[],
+): Promise<void> {
+	const [first] = group;
+	// Each position names its own and the opposite token; YES is outcome 0
+	const outcomeTokenIds: [string, string] =
+		first.outcomeIndex === 0
+			? [first.asset, first.oppositeAsset]
+			: [first.oppositeAsset, first.asset];
+	const result = await redemptionApi.redeemPositions(
+		item.negRisk
+			? { conditionId: first.conditionId, negRisk: true, outcomeTokenIds }
+			: { conditionId: first.conditionId, negRisk: false },
+	);
+
+	item.status = result.success ? "redeemed" : "failed";
+	if (result.txHash) {
+		item.txHash = result.txHash;
+		item.polygonscanUrl = `https://polygonscan.com/tx/${result.txHash}`;
+	}
+	if (result.usdcReceived !== undefined) {
+		item.usdcReceived = result.usdcReceived;
+	}
+	if (result.error) item.error = result.error;
+}
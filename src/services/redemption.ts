@@ -3,7 +3,7 @@
  * Handles redemption of resolved market positions on Polymarket
  */
 
-import { type BigNumber, Contract, providers, Wallet } from "ethers";
+import { type BigNumber, Contract, providers, utils, Wallet } from "ethers";
 import { log } from "../util/log.js";
 import { getConfig, POLYGON_ADDRESSES } from "./config.js";
 
@@ -29,9 +29,21 @@ const NEG_RISK_ADAPTER_ABI = [
 	"function redeemPositions(bytes32 conditionId, uint256[] amounts)",
 ];
 
+/**
+ * ERC20 Transfer event, used to read the USDC paid out by a redemption
+ */
+const ERC20_TRANSFER_ABI = [
+	"event Transfer(address indexed from, address indexed to, uint256 value)",
+];
+
+// USDC and conditional tokens both use 6 decimals on-chain
+export const TOKEN_DECIMALS = 6;
+
 export interface RedeemResult {
 	success: boolean;
 	txHash?: string;
+	/** USDC transferred to our addresses by the redemption transaction */
+	usdcReceived?: number;
 	error?: string;
 }
 
@@ -40,6 +52,8 @@ export interface RedeemParams {
 	tokenId?: string;
 	outcomeIndex?: 0 | 1;
 	negRisk?: boolean;
+	/** Neg-risk only: token IDs of both outcomes [yes, no]; both balances are redeemed in one call */
+	outcomeTokenIds?: [string, string];
 }
 
 /**
@@ -135,6 +149,24 @@ export class PolymarketRedemption {
 		return winningIndexSets;
 	}
 
+	/**
+	 * Share of the collateral paid per token of an outcome once resolved
+	 * (1 for the winner of a binary market, 0 for the loser)
+	 */
+	async getPayoutFraction(
+		conditionId: string,
+		outcomeIndex: number,
+	): Promise<number> {
+		const ctf = this.getCtfContract();
+		const conditionIdBytes32 = this.formatConditionId(conditionId);
+		const [numerator, denominator]: [BigNumber, BigNumber] = await Promise.all([
+			ctf.payoutNumerators(conditionIdBytes32, outcomeIndex),
+			ctf.payoutDenominator(conditionIdBytes32),
+		]);
+		if (denominator.isZero()) return 0;
+		return numerator.toNumber() / denominator.toNumber();
+	}
+
 	/**
 	 * Check if NegRiskAdapter is approved to spend CTF tokens
 	 */
@@ -147,6 +179,34 @@ export class PolymarketRedemption {
 		);
 	}
 
+	/**
+	 * Sum the USDC transfers to our signer or wallet in a transaction receipt
+	 */
+	private getUsdcReceived(receipt: providers.TransactionReceipt): number {
+		const erc20 = new utils.Interface(ERC20_TRANSFER_ABI);
+		const recipients = new Set(
+			[this.signer.address, this.getWalletAddress()].map((a) =>
+				a.toLowerCase(),
+			),
+		);
+		const transferTopic = erc20.getEventTopic("Transfer");
+		let received = 0n;
+		for (const entry of receipt.logs) {
+			if (
+				entry.address.toLowerCase() !==
+					POLYGON_ADDRESSES.USDC_ADDRESS.toLowerCase() ||
+				entry.topics[0] !== transferTopic
+			) {
+				continue;
+			}
+			const parsed = erc20.parseLog(entry);
+			if (recipients.has(String(parsed.args.to).toLowerCase())) {
+				received += (parsed.args.value as BigNumber).toBigInt();
+			}
+		}
+		return Number(received) / 10 ** TOKEN_DECIMALS;
+	}
+
 	/**
 	 * Format condition ID as bytes32
 	 */
@@ -159,7 +219,13 @@ export class PolymarketRedemption {
 	 * Claims winnings from markets that have been resolved
 	 */
 	async redeemPositions(params: RedeemParams): Promise<RedeemResult> {
-		const { conditionId, tokenId, outcomeIndex, negRisk = false } = params;
+		const {
+			conditionId,
+			tokenId,
+			outcomeIndex,
+			negRisk = false,
+			outcomeTokenIds,
+		} = params;
 
 		try {
 			const conditionIdBytes32 = this.formatConditionId(conditionId);
@@ -191,7 +257,7 @@ export class PolymarketRedemption {
 
 			if (negRisk) {
 				// For negative risk markets, use NegRiskAdapter
-				if (tokenBalance === 0n) {
+				if (tokenBalance === 0n && !outcomeTokenIds) {
 					return {
 						success: false,
 						error:
@@ -209,15 +275,30 @@ export class PolymarketRedemption {
 					};
 				}
 
-				if (outcomeIndex !== 0 && outcomeIndex !== 1) {
-					return {
-						success: false,
-						error: "outcomeIndex must be 0 or 1 for negRisk redemption.",
-					};
-				}
 				// amounts[0] = outcome 0 (Yes) tokens, amounts[1] = outcome 1 (No) tokens
-				const amounts: [bigint, bigint] =
-					outcomeIndex === 0 ? [tokenBalance, 0n] : [0n, tokenBalance];
+				let amounts: [bigint, bigint];
+				if (outcomeTokenIds) {
+					const [yes, no] = await Promise.all(
+						outcomeTokenIds.map((id) => this.getCTFBalance(id)),
+					);
+					if (yes === 0n && no === 0n) {
+						return {
+							success: false,
+							error:
+								"No CTF tokens to redeem. Balance is 0 - position may have already been redeemed.",
+						};
+					}
+					amounts = [yes, no];
+				} else {
+					if (outcomeIndex !== 0 && outcomeIndex !== 1) {
+						return {
+							success: false,
+							error: "outcomeIndex must be 0 or 1 for negRisk redemption.",
+						};
+					}
+					amounts =
+						outcomeIndex === 0 ? [tokenBalance, 0n] : [0n, tokenBalance];
+				}
 
 				log(`Redeeming negRisk position:`);
 				log(`  Condition ID: ${conditionIdBytes32}`);
@@ -271,6 +352,7 @@ export class PolymarketRedemption {
 			return {
 				success: true,
 				txHash: receipt.transactionHash,
+				usdcReceived: this.getUsdcReceived(receipt),
 			};
 		} catch (error) {
 			const errorMessage =
@@ -0,0 +1,417 @@
+/**
+ * Risk Limit Service
+ * Hard pre-trade guardrails enforced before any order is signed
+ */
+
+import type { ClobClient, OpenOrder, Trade } from "@polymarket/clob-client";
+import { api } from "./api.js";
+import { getRiskLimits, type RiskLimits } from "./config.js";
+import { type DataApiPosition, fetchAllPositions } from "./data-api.js";
+import { simulateFill } from "./orderbook.js";
+import { computeTokenPnl, getSettledFills } from "./pnl.js";
+
+export interface RiskOrder {
+	tokenId: string;
+	side: "BUY" | "SELL";
+	// Limit orders
+	price?: number;
+	size?: number;
+	// Market orders: USDC for BUY, shares for SELL
+	amount?: number;
+}
+
+export interface RiskViolation {
+	limit: keyof RiskLimits;
+	message: string;
+	limitValue: number | string[];
+	actual?: number;
+}
+
+export interface RiskContext {
+	client: ClobClient;
+	/** Wallet holding positions (funder/proxy or signer) */
+	walletAddress: string;
+	/** All addresses that may appear as maker on our fills */
+	ownAddresses: string[];
+	/** Orders accepted earlier in the same batch, not yet visible to the CLOB or Data API */
+	pending?: PendingRiskOrder[];
+}
+
+/**
+ * What an accepted order adds to exposure and the open order count
+ */
+export interface PendingRiskOrder {
+	tokenId: string;
+	side: "BUY" | "SELL";
+	notional: number;
+	/** Shares, when known (limit orders and market SELLs) */
+	shares?: number;
+	conditionId?: string;
+	eventSlugs: string[];
+}
+
+interface MarketIdentity {
+	conditionId?: string;
+	slug?: string;
+	eventSlugs: string[];
+}
+
+/**
+ * Structured error raised when an order breaches one or more risk limits
+ */
+export class RiskLimitError extends Error {
+	code = "RISK_LIMIT_EXCEEDED" as const;
+	violations: RiskViolation[];
+
+	constructor(violations: RiskViolation[]) {
+		super(
+			[
+				"Order rejected by risk limits.",
+				...violations.map((v) => `- ${v.message}`),
+			].join("\n"),
+		);
+		this.name = "RiskLimitError";
+		this.violations = violations;
+	}
+
+	toJSON() {
+		return {
+			riskLimitExceeded: true,
+			code: this.code,
+			message: this.message,
+			violations: this.violations,
+		};
+	}
+}
+
+/**
+ * Risk engine evaluating orders against configured limits
+ */
+export class PolymarketRisk {
+	private limits: RiskLimits;
+
+	constructor(limits?: Partial<RiskLimits>) {
+		this.limits = getRiskLimits(limits);
+	}
+
+	/**
+	 * Get the active limits (unset limits are not enforced)
+	 */
+	getLimits(): RiskLimits {
+		return this.limits;
+	}
+
+	/**
+	 * Whether any limit is configured at all
+	 */
+	isEnabled(): boolean {
+		const l = this.limits;
+		return (
+			l.maxOrderNotional !== undefined ||
+			l.maxMarketExposure !== undefined ||
+			l.maxEventExposure !== undefined ||
+			l.maxOpenOrders !== undefined ||
+			l.maxDailyLoss !== undefined ||
+			l.marketAllowlist.length > 0 ||
+			l.marketDenylist.length > 0
+		);
+	}
+
+	/**
+	 * Throw a RiskLimitError if the order breaches any configured limit.
+	 * Returns the order as a pending entry to add to `ctx.pending` once it is
+	 * accepted, so later orders of a batch are checked against it.
+	 */
+	async assertWithinLimits(
+		order: RiskOrder,
+		ctx: RiskContext,
+	): Promise<PendingRiskOrder | undefined> {
+		if (!this.isEnabled()) return undefined;
+
+		const { violations, pending } = await this.evaluate(order, ctx);
+		if (violations.length > 0) {
+			throw new RiskLimitError(violations);
+		}
+		return pending;
+	}
+
+	/**
+	 * Evaluate an order against all configured limits and return every violation
+	 */
+	async check(order: RiskOrder, ctx: RiskContext): Promise<RiskViolation[]> {
+		return (await this.evaluate(order, ctx)).violations;
+	}
+
+	private async evaluate(
+		order: RiskOrder,
+		ctx: RiskContext,
+	): Promise<{ violations: RiskViolation[]; pending: PendingRiskOrder }> {
+		const l = this.limits;
+		const pendingOrders = ctx.pending ?? [];
+		const violations: RiskViolation[] = [];
+
+		const needsIdentity =
+			l.marketAllowlist.length > 0 ||
+			l.marketDenylist.length > 0 ||
+			l.maxMarketExposure !== undefined ||
+			l.maxEventExposure !== undefined;
+		const needsExposure =
+			order.side === "BUY" &&
+			(l.maxMarketExposure !== undefined || l.maxEventExposure !== undefined);
+		const needsPositions =
+			needsExposure || (l.maxDailyLoss !== undefined && order.side === "SELL");
+		const needsOpenOrders = needsExposure || l.maxOpenOrders !== undefined;
+
+		const [notional, identity, positions, openOrders] = await Promise.all([
+			this.getOrderNotional(order),
+			needsIdentity ? this.getMarketIdentity(order.tokenId) : undefined,
+			needsPositions
+				? fetchAllPositions(ctx.walletAddress, false)
+				: ([] as DataApiPosition[]),
+			needsOpenOrders
+				? (ctx.client.getOpenOrders() as Promise<OpenOrder[]>)
+				: ([] as OpenOrder[]),
+		]);
+
+		// Allowlist / denylist
+		if (identity) {
+			const keys = [
+				order.tokenId,
+				identity.conditionId,
+				identity.slug,
+				...identity.eventSlugs,
+			]
+				.filter((k): k is string => !!k)
+				.map((k) => k.toLowerCase());
+			if (
+				l.marketAllowlist.length > 0 &&
+				!keys.some((k) => l.marketAllowlist.includes(k))
+			) {
+				violations.push({
+					limit: "marketAllowlist",
+					message: `Market ${identity.slug ?? order.tokenId} is not on the allowlist`,
+					limitValue: l.marketAllowlist,
+				});
+			}
+			if (keys.some((k) => l.marketDenylist.includes(k))) {
+				violations.push({
+					limit: "marketDenylist",
+					message: `Market ${identity.slug ?? order.tokenId} is on the denylist`,
+					limitValue: l.marketDenylist,
+				});
+			}
+		}
+
+		// Per-order notional
+		if (l.maxOrderNotional !== undefined && notional > l.maxOrderNotional) {
+			violations.push({
+				limit: "maxOrderNotional",
+				message: `Order notional $${notional.toFixed(2)} exceeds max $${l.maxOrderNotional}`,
+				limitValue: l.maxOrderNotional,
+				actual: notional,
+			});
+		}
+
+		// Exposure only grows on BUY orders. Resting BUYs count with their
+		// unfilled notional, as do BUYs accepted earlier in the same batch.
+		if (needsExposure && identity) {
+			const buys = [
+				...pendingOrders,
+				...(await this.getOpenBuys(
+					openOrders,
+					l.maxEventExposure !== undefined,
+				)),
+			];
+			if (l.maxMarketExposure !== undefined && identity.conditionId) {
+				const current =
+					sumValue(
+						positions.filter((p) => p.conditionId === identity.conditionId),
+					) +
+					sumPendingBuys(
+						buys.filter((o) => o.conditionId === identity.conditionId),
+					);
+				if (current + notional > l.maxMarketExposure) {
+					violations.push({
+						limit: "maxMarketExposure",
+						message: `Market exposure would be $${(current + notional).toFixed(2)}, max $${l.maxMarketExposure}`,
+						limitValue: l.maxMarketExposure,
+						actual: current + notional,
+					});
+				}
+			}
+			if (l.maxEventExposure !== undefined && identity.eventSlugs.length > 0) {
+				const current =
+					sumValue(
+						positions.filter(
+							(p) => p.eventSlug && identity.eventSlugs.includes(p.eventSlug),
+						),
+					) +
+					sumPendingBuys(
+						buys.filter((o) =>
+							o.eventSlugs.some((s) => identity.eventSlugs.includes(s)),
+						),
+					);
+				if (current + notional > l.maxEventExposure) {
+					violations.push({
+						limit: "maxEventExposure",
+						message: `Event exposure would be $${(current + notional).toFixed(2)}, max $${l.maxEventExposure}`,
+						limitValue: l.maxEventExposure,
+						actual: current + notional,
+					});
+				}
+			}
+		}
+
+		// Open order count
+		if (l.maxOpenOrders !== undefined) {
+			const open = openOrders.length + pendingOrders.length;
+			if (open + 1 > l.maxOpenOrders) {
+				violations.push({
+					limit: "maxOpenOrders",
+					message: `Already ${open} open orders, max ${l.maxOpenOrders}`,
+					limitValue: l.maxOpenOrders,
+					actual: open,
+				});
+			}
+		}
+
+		// Daily realized loss; selling down a held position only lowers risk
+		if (
+			l.maxDailyLoss !== undefined &&
+			!isReducingSell(order, positions, pendingOrders)
+		) {
+			const loss = await this.getDailyRealizedLoss(ctx);
+			if (loss >= l.maxDailyLoss) {
+				violations.push({
+					limit: "maxDailyLoss",
+					message: `Realized loss today $${loss.toFixed(2)} has reached the cap of $${l.maxDailyLoss}`,
+					limitValue: l.maxDailyLoss,
+					actual: loss,
+				});
+			}
+		}
+
+		return {
+			violations,
+			pending: {
+				tokenId: order.tokenId,
+				side: order.side,
+				notional,
+				shares: getOrderShares(order),
+				conditionId: identity?.conditionId,
+				eventSlugs: identity?.eventSlugs ?? [],
+			},
+		};
+	}
+
+	/**
+	 * USDC notional of an order. Market SELL orders are valued by walking the bids.
+	 */
+	private async getOrderNotional(order: RiskOrder): Promise<number> {
+		if (order.price !== undefined && order.size !== undefined) {
+			return order.price * order.size;
+		}
+		if (order.side === "BUY") {
+			return order.amount ?? 0;
+		}
+		const book = await api.getOrderBook(order.tokenId);
+		return simulateFill(book, "SELL", { shares: order.amount ?? 0 }).totalCost;
+	}
+
+	/**
+	 * Resting BUY orders as exposure entries, valued at their unfilled notional.
+	 * Event slugs are looked up per token only when an event limit needs them.
+	 */
+	private async getOpenBuys(
+		openOrders: OpenOrder[],
+		withEvents: boolean,
+	): Promise<PendingRiskOrder[]> {
+		const buys = openOrders.filter((o) => o.side.toUpperCase() === "BUY");
+		const eventSlugs = new Map<string, string[]>();
+		if (withEvents) {
+			const tokens = [...new Set(buys.map((o) => o.asset_id))];
+			const identities = await Promise.all(
+				tokens.map((t) => this.getMarketIdentity(t)),
+			);
+			tokens.forEach((t, i) => {
+				eventSlugs.set(t, identities[i].eventSlugs);
+			});
+		}
+		return buys.map((o) => {
+			const unfilled = Number(o.original_size) - Number(o.size_matched);
+			return {
+				tokenId: o.asset_id,
+				side: "BUY",
+				notional: Math.max(0, unfilled) * Number(o.price),
+				shares: unfilled,
+				conditionId: o.market,
+				eventSlugs: eventSlugs.get(o.asset_id) ?? [],
+			};
+		});
+	}
+
+	/**
+	 * Resolve condition ID, market slug and event slugs for a token via Gamma
+	 */
+	private async getMarketIdentity(tokenId: string): Promise<MarketIdentity> {
+		const market = await api.getMarketByTokenId(tokenId);
+		return {
+			conditionId: market?.conditionId,
+			slug: market?.slug,
+			eventSlugs: (market?.events ?? [])
+				.map((e) => e.slug)
+				.filter((s): s is string => !!s),
+		};
+	}
+
+	/**
+	 * Realized loss since 00:00 UTC: SELL fills measured against the FIFO cost
+	 * basis rebuilt from the whole fill history, so positions opened before
+	 * today and closed since are included.
+	 */
+	private async getDailyRealizedLoss(ctx: RiskContext): Promise<number> {
+		const startOfDay = new Date();
+		startOfDay.setUTCHours(0, 0, 0, 0);
+		const trades: Trade[] = await ctx.client.getTrades();
+
+		const realized = computeTokenPnl(
+			getSettledFills(trades, ctx.ownAddresses),
+			{ method: "fifo", start: Math.floor(startOfDay.getTime() / 1000) },
+		).reduce((sum, t) => sum + t.realizedPnl, 0);
+		return Math.max(0, -realized);
+	}
+}
+
+function sumValue(positions: DataApiPosition[]): number {
+	return positions.reduce((sum, p) => sum + (Number(p.currentValue) || 0), 0);
+}
+
+function getOrderShares(order: RiskOrder): number | undefined {
+	return order.size ?? (order.side === "SELL" ? order.amount : undefined);
+}
+
+/**
+ * Whether the order sells no more of the token than is held, after the
+ * sells accepted earlier in the same batch
+ */
+function isReducingSell(
+	order: RiskOrder,
+	positions: DataApiPosition[],
+	pending: PendingRiskOrder[],
+): boolean {
+	const shares = getOrderShares(order);
+	if (order.side !== "SELL" || shares === undefined) return false;
+	const held = positions
+		.filter((p) => p.asset === order.tokenId)
+		.reduce((sum, p) => sum + (Number(p.size) || 0), 0);
+	const pendingSells = pending
+		.filter((o) => o.tokenId === order.tokenId && o.side === "SELL")
+		.reduce((sum, o) => sum + (o.shares ?? 0), 0);
+	return shares <= held - pendingSells + 1e-9;
+}
+
+function sumPendingBuys(orders: PendingRiskOrder[]): number {
+	return orders
+		.filter((o) => o.side === "BUY")
+		.reduce((sum, o) => sum + o.notional, 0);
+}
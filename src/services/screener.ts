@@ -0,0 +1,273 @@
+/**
+ * Market Screener
+ * Pages through Gamma markets, applies filters Gamma cannot do server-side
+ * (price, spread, neg-risk) and returns a compact, sorted table
+ */
+
+import { api, type GammaMarketQuery, type GammaMarketRef } from "./api.js";
+import { round } from "./orderbook.js";
+import { parseTimestamp } from "./price-history.js";
+
+// Markets fetched per Gamma request
+const PAGE_SIZE = 100;
+
+export const SCREEN_SORT_KEYS = [
+	"volume",
+	"volume24h",
+	"liquidity",
+	"endDate",
+	"price",
+	"spread",
+] as const;
+
+export type ScreenSortKey = (typeof SCREEN_SORT_KEYS)[number];
+
+// Gamma fields to order by, so a capped scan sees the top markets first.
+// Price and spread cannot be ordered server-side; those scans go by volume.
+const GAMMA_ORDER: Record<ScreenSortKey, string> = {
+	volume: "volumeNum",
+	volume24h: "volume24hr",
+	liquidity: "liquidityNum",
+	endDate: "endDate",
+	price: "volumeNum",
+	spread: "volumeNum",
+};
+
+export interface ScreenCriteria {
+	minVolume?: number;
+	minVolume24h?: number;
+	minLiquidity?: number;
+	/** Unix seconds or ISO 8601 */
+	endDateMin?: string;
+	/** Unix seconds or ISO 8601 */
+	endDateMax?: string;
+	/** Markets in any of these tags */
+	tagIds?: string[];
+	negRisk?: boolean;
+	/** Bounds on the first outcome's ("Yes") price */
+	minPrice?: number;
+	maxPrice?: number;
+	maxSpread?: number;
+	sortBy?: ScreenSortKey;
+	ascending?: boolean;
+	/** Rows returned */
+	limit?: number;
+	/** Markets fetched from Gamma before giving up */
+	maxScan?: number;
+}
+
+export interface ScreenedMarket {
+	slug: string;
+	question: string | null;
+	price: number | null;
+	bestBid: number | null;
+	bestAsk: number | null;
+	spread: number | null;
+	volume: number | null;
+	volume24h: number | null;
+	liquidity: number | null;
+	endDate: string | null;
+	negRisk: boolean;
+}
+
+export interface ScreenResult {
+	scanned: number;
+	matched: number;
+	returned: number;
+	/** True when the scan cap stopped paging before Gamma ran out of markets */
+	truncated: boolean;
+	/** With tagIds: the tags whose markets were not fully paged */
+	truncatedTagIds?: string[];
+	columns: Array<keyof ScreenedMarket>;
+	rows: unknown[][];
+}
+
+const COLUMNS: Array<keyof ScreenedMarket> = [
+	"slug",
+	"question",
+	"price",
+	"bestBid",
+	"bestAsk",
+	"spread",
+	"volume",
+	"volume24h",
+	"liquidity",
+	"endDate",
+	"negRisk",
+];
+
+interface TagCursor {
+	tagId?: string;
+	query: GammaMarketQuery;
+	offset: number;
+	done?: boolean;
+}
+
+/**
+ * Screen open markets against the criteria and return the top rows
+ */
+export async function screenMarkets(
+	criteria: ScreenCriteria,
+): Promise<ScreenResult> {
+	const limit = criteria.limit ?? 25;
+	const maxScan = criteria.maxScan ?? 500;
+	const sortBy = criteria.sortBy ?? "volume";
+	const serverSorted = sortBy !== "price" && sortBy !== "spread";
+
+	const base: GammaMarketQuery = {
+		closed: false,
+		active: true,
+		order: GAMMA_ORDER[sortBy],
+		ascending: serverSorted ? (criteria.ascending ?? false) : false,
+		...(criteria.minVolume !== undefined && {
+			volume_num_min: criteria.minVolume,
+		}),
+		...(criteria.minLiquidity !== undefined && {
+			liquidity_num_min: criteria.minLiquidity,
+		}),
+		...(criteria.endDateMin && {
+			end_date_min: toIso(criteria.endDateMin),
+		}),
+		...(criteria.endDateMax && {
+			end_date_max: toIso(criteria.endDateMax),
+		}),
+	};
+
+	// Gamma filters on one tag per request, so multiple tags are unioned locally
+	const cursors: TagCursor[] = criteria.tagIds?.length
+		? criteria.tagIds.map((tagId) => {
+				const parsed = Number(tagId);
+				if (Number.isNaN(parsed)) {
+					throw new Error(`tag_id must be a number: ${tagId}`);
+				}
+				return { tagId, query: { ...base, tag_id: parsed }, offset: 0 };
+			})
+		: [{ query: base, offset: 0 }];
+
+	const seen = new Map<string, GammaMarketRef>();
+	let scanned = 0;
+
+	// Page through the tags in turn, splitting what is left of the scan cap
+	// between them, so an early tag cannot use up the whole budget
+	let active = cursors;
+	while (active.length > 0 && scanned < maxScan) {
+		const share = Math.ceil((maxScan - scanned) / active.length);
+		for (const cursor of active) {
+			const pageSize = Math.min(PAGE_SIZE, share, maxScan - scanned);
+			if (pageSize <= 0) break;
+			const page = await api.listMarkets({
+				...cursor.query,
+				limit: pageSize,
+				offset: cursor.offset,
+			});
+			scanned += page.length;
+			cursor.offset += page.length;
+			for (const market of page) seen.set(market.id, market);
+			if (page.length < pageSize) cursor.done = true;
+		}
+		active = active.filter((c) => !c.done);
+	}
+	// A tag still active at the cap may have more markets on Gamma
+	const truncatedTagIds = active.flatMap((c) => (c.tagId ? [c.tagId] : []));
+
+	const matched = [...seen.values()]
+		.map(toScreenedMarket)
+		.filter((m) => matchesCriteria(m, criteria));
+	sortMarkets(matched, sortBy, criteria.ascending);
+	const top = matched.slice(0, limit);
+
+	return {
+		scanned,
+		matched: matched.length,
+		returned: top.length,
+		truncated: active.length > 0,
+		...(criteria.tagIds?.length && { truncatedTagIds }),
+		columns: COLUMNS,
+		rows: top.map((m) => COLUMNS.map((c) => m[c])),
+	};
+}
+
+/**
+ * Flatten a Gamma market into a screener row. The price is the first
+ * outcome's midpoint, falling back to the last trade and then Gamma's price.
+ */
+function toScreenedMarket(market: GammaMarketRef): ScreenedMarket {
+	const bestBid = toNumber(market.bestBid);
+	const bestAsk = toNumber(market.bestAsk);
+	const outcomePrices = JSON.parse(market.outcomePrices ?? "[]") as string[];
+	const price =
+		bestBid !== null && bestAsk !== null
+			? round((bestBid + bestAsk) / 2)
+			: (toNumber(market.lastTradePrice) ?? toNumber(outcomePrices[0]));
+	const spread =
+		toNumber(market.spread) ??
+		(bestBid !== null && bestAsk !== null ? round(bestAsk - bestBid) : null);
+
+	return {
+		slug: market.slug,
+		question: market.question ?? null,
+		price,
+		bestBid,
+		bestAsk,
+		spread,
+		volume: toNumber(market.volumeNum),
+		volume24h: toNumber(market.volume24hr),
+		liquidity: toNumber(market.liquidityNum),
+		endDate: market.endDate ?? null,
+		negRisk: market.negRisk ?? false,
+	};
+}
+
+function matchesCriteria(m: ScreenedMarket, c: ScreenCriteria): boolean {
+	if (c.negRisk !== undefined && m.negRisk !== c.negRisk) return false;
+	if (c.minVolume24h !== undefined && (m.volume24h ?? 0) < c.minVolume24h) {
+		return false;
+	}
+	if (c.minPrice !== undefined && (m.price === null || m.price < c.minPrice)) {
+		return false;
+	}
+	if (c.maxPrice !== undefined && (m.price === null || m.price > c.maxPrice)) {
+		return false;
+	}
+	if (
+		c.maxSpread !== undefined &&
+		(m.spread === null || m.spread > c.maxSpread)
+	) {
+		return false;
+	}
+	return true;
+}
+
+/**
+ * Sort in place; markets missing the sort value always go last
+ */
+function sortMarkets(
+	markets: ScreenedMarket[],
+	sortBy: ScreenSortKey,
+	ascending = false,
+): void {
+	const value = (m: ScreenedMarket): number | null =>
+		sortBy === "endDate"
+			? m.endDate
+				? Date.parse(m.endDate)
+				: null
+			: m[sortBy];
+	markets.sort((a, b) => {
+		const va = value(a) ?? Number.NaN;
+		const vb = value(b) ?? Number.NaN;
+		if (Number.isNaN(va) || Number.isNaN(vb)) {
+			return Number(Number.isNaN(va)) - Number(Number.isNaN(vb));
+		}
+		return ascending ? va - vb : vb - va;
+	});
+}
+
+function toNumber(value: unknown): number | null {
+	if (value === undefined || value === null || value === "") return null;
+	const n = Number(value);
+	return Number.isNaN(n) ? null : n;
+}
+
+function toIso(input: string): string {
+	return new Date(parseTimestamp(input) * 1000).toISOString();
+}
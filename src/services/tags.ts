@@ -0,0 +1,95 @@
+/**
+ * Tag Matching
+ * Pure helpers for finding Gamma tags by ID, slug or a fuzzy label
+ */
+
+export interface GammaTagRef {
+	id: string;
+	label?: string;
+	slug?: string;
+}
+
+export interface TagMatch extends GammaTagRef {
+	/** 1 for an exact ID/slug/label match, lower for fuzzier matches */
+	score: number;
+}
+
+// Fuzzy matches scoring below this are treated as unrelated
+const MIN_SCORE = 0.5;
+
+/**
+ * Rank tags against a query, best first. Exact ID, slug or label matches
+ * score 1; prefix, substring, word and edit-distance matches score lower.
+ */
+export function matchTags(tags: GammaTagRef[], query: string): TagMatch[] {
+	const q = normalize(query);
+	if (!q) return [];
+
+	return tags
+		.map((tag) => ({ ...compactTag(tag), score: scoreTag(tag, q) }))
+		.filter((match) => match.score >= MIN_SCORE)
+		.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Just the identifying fields of a tag
+ */
+export function compactTag(tag: GammaTagRef): GammaTagRef {
+	return { id: String(tag.id), label: tag.label, slug: tag.slug };
+}
+
+function scoreTag(tag: GammaTagRef, q: string): number {
+	// IDs only match exactly; "12" must not fuzzy-match tag 123
+	if (normalize(String(tag.id)) === q) return 1;
+	const candidates = [tag.slug, tag.label]
+		.filter((c): c is string => !!c)
+		.map(normalize);
+
+	let best = 0;
+	for (const candidate of candidates) {
+		if (candidate === q) return 1;
+		let score = 0;
+		if (candidate.startsWith(q)) {
+			score = 0.9;
+		} else if (candidate.includes(q)) {
+			score = 0.8;
+		} else if (
+			q.split(" ").every((word) => candidate.split(" ").includes(word))
+		) {
+			score = 0.7;
+		} else {
+			// Typos: similarity from edit distance, capped below substring matches
+			const distance = levenshtein(candidate, q);
+			score = 0.6 * (1 - distance / Math.max(candidate.length, q.length, 1));
+		}
+		best = Math.max(best, score);
+	}
+	return Math.round(best * 1000) / 1000;
+}
+
+/**
+ * Lowercase and collapse punctuation, so "U.S. Politics" matches "us-politics"
+ */
+function normalize(value: string): string {
+	return value
+		.toLowerCase()
+		.replace(/\./g, "")
+		.replace(/[^a-z0-9]+/g, " ")
+		.trim();
+}
+
+function levenshtein(a: string, b: string): number {
+	let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+	for (let i = 1; i <= a.length; i++) {
+		const current = [i];
+		for (let j = 1; j <= b.length; j++) {
+			current[j] = Math.min(
+				previous[j] + 1,
+				current[j - 1] + 1,
+				previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+			);
+		}
+		previous = current;
+	}
+	return previous[b.length];
+}
@@ -0,0 +1,280 @@
+/**
+ * Trade History
+ * Cursor pagination and filters over the account's CLOB trades, and export
+ * of the complete history as normalized CSV or JSONL rows
+ */
+
+import { mkdirSync, writeFileSync } from "node:fs";
+import { basename, dirname, isAbsolute, join } from "node:path";
+import type { Trade, TradeParams } from "@polymarket/clob-client";
+import { api } from "./api.js";
+import { getConfig } from "./config.js";
+import { getOwnFills, type OwnFill } from "./fills.js";
+import { estimateFee, round } from "./orderbook.js";
+import { parseTimestamp } from "./price-history.js";
+import { tradeApi } from "./trading.js";
+
+export type ExportFormat = "csv" | "jsonl";
+
+export interface TradeHistoryFilter {
+	/** Condition ID */
+	market?: string;
+	tokenId?: string;
+	makerAddress?: string;
+	/** Our side of the fill */
+	side?: "BUY" | "SELL";
+	/** Unix seconds or ISO 8601 */
+	after?: string;
+	/** Unix seconds or ISO 8601 */
+	before?: string;
+}
+
+export interface TradeHistoryPage {
+	trades: Trade[];
+	/** Pass back as `cursor` for the next page; null on the last page */
+	nextCursor: string | null;
+}
+
+/**
+ * One of our fills, flattened for spreadsheets and reconciliation
+ */
+export interface TradeExportRow {
+	timestamp: string;
+	tradeId: string;
+	conditionId: string;
+	marketTitle: string;
+	outcome: string;
+	tokenId: string;
+	side: string;
+	price: number;
+	size: number;
+	/** USDC value of the fill before fees */
+	notional: number;
+	feeRateBps: number;
+	/** Estimated fee in USDC */
+	fee: number;
+	role: "TAKER" | "MAKER";
+	status: string;
+	transactionHash: string;
+}
+
+export interface TradeExportResult {
+	path: string;
+	format: ExportFormat;
+	trades: number;
+	rows: number;
+}
+
+const EXPORT_COLUMNS: Array<keyof TradeExportRow> = [
+	"timestamp",
+	"tradeId",
+	"conditionId",
+	"marketTitle",
+	"outcome",
+	"tokenId",
+	"side",
+	"price",
+	"size",
+	"notional",
+	"feeRateBps",
+	"fee",
+	"role",
+	"status",
+	"transactionHash",
+];
+
+/**
+ * Fetch one page of trades. The token and side filters apply to our own
+ * fills, which as maker can be on a different token than the trade's taker
+ * side, so they are done locally after the page is fetched.
+ */
+export async function getTradeHistoryPage(
+	filter: TradeHistoryFilter,
+	cursor?: string,
+): Promise<TradeHistoryPage> {
+	const page = await tradeApi.getTradeHistoryPage(
+		toTradeParams(filter),
+		cursor,
+	);
+	return {
+		trades: await filterByOwnFills(page.trades, filter),
+		nextCursor: page.nextCursor,
+	};
+}
+
+/**
+ * Write the complete trade history matching the filter to a CSV or JSONL file
+ * in the state directory's exports folder. A file name can be given; it
+ * defaults to a timestamped one. Existing files are never overwritten.
+ */
+export async function exportTradeHistory(options: {
+	filter: TradeHistoryFilter;
+	format: ExportFormat;
+	path?: string;
+}): Promise<TradeExportResult> {
+	const trades: Trade[] = [];
+	let cursor: string | undefined;
+	do {
+		const page = await tradeApi.getTradeHistoryPage(
+			toTradeParams(options.filter),
+			cursor,
+		);
+		trades.push(...page.trades);
+		cursor = page.nextCursor ?? undefined;
+	} while (cursor);
+
+	const rows = await toExportRows(trades, options.filter);
+	const path = join(
+		getExportDir(),
+		options.path
+			? toExportFileName(options.path)
+			: `trades-${new Date().toISOString().replace(/[:.]/g, "-")}.${options.format}`,
+	);
+	mkdirSync(dirname(path), { recursive: true });
+	try {
+		// "wx" fails instead of overwriting an existing file
+		writeFileSync(
+			path,
+			options.format === "csv" ? toCsv(rows) : toJsonl(rows),
+			{ encoding: "utf8", flag: "wx" },
+		);
+	} catch (err) {
+		if ((err as NodeJS.ErrnoException).code === "EEXIST") {
+			throw new Error(
+				`Export file already exists: ${path}. Choose another file name.`,
+			);
+		}
+		throw err;
+	}
+
+	return {
+		path,
+		format: options.format,
+		trades: trades.length,
+		rows: rows.length,
+	};
+}
+
+/**
+ * Flatten trades into one row per own fill, oldest first, with market titles
+ * looked up once per market
+ */
+async function toExportRows(
+	trades: Trade[],
+	filter: TradeHistoryFilter,
+): Promise<TradeExportRow[]> {
+	const ownAddresses = await tradeApi.getOwnAddresses();
+	const titles = new Map<string, Promise<string>>();
+	const titleFor = (conditionId: string, tokenId: string) => {
+		let title = titles.get(conditionId);
+		if (!title) {
+			title = api
+				.getMarketByTokenId(tokenId)
+				.then((market) => market?.question ?? market?.slug ?? "")
+				.catch(() => "");
+			titles.set(conditionId, title);
+		}
+		return title;
+	};
+
+	const rows = trades.flatMap((trade) =>
+		getOwnFills(trade, ownAddresses)
+			.filter((fill) => matchesFill(fill, filter))
+			.map((fill) => ({ trade, fill })),
+	);
+	const result = await Promise.all(
+		rows.map(
+			async ({ trade, fill }): Promise<TradeExportRow> => ({
+				timestamp: new Date(fill.timestamp * 1000).toISOString(),
+				tradeId: fill.tradeId,
+				conditionId: fill.conditionId,
+				marketTitle: await titleFor(fill.conditionId, fill.assetId),
+				outcome: fill.outcome,
+				tokenId: fill.assetId,
+				side: fill.side,
+				price: fill.price,
+				size: fill.size,
+				notional: round(fill.price * fill.size),
+				feeRateBps: fill.feeRateBps,
+				fee: round(estimateFee(fill.price, fill.size, fill.feeRateBps)),
+				role: trade.trader_side,
+				status: trade.status,
+				transactionHash: trade.transaction_hash,
+			}),
+		),
+	);
+	return result.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+}
+
+function getExportDir(): string {
+	return join(getConfig().stateDir, "exports");
+}
+
+/**
+ * Accept only a plain file name, so exports cannot escape the exports folder
+ */
+function toExportFileName(name: string): string {
+	const fileName = name.trim();
+	if (
+		!fileName ||
+		fileName === "." ||
+		fileName === ".." ||
+		isAbsolute(fileName) ||
+		basename(fileName) !== fileName ||
+		fileName.includes("/") ||
+		fileName.includes("\\")
+	) {
+		throw new Error(
+			`Invalid export file name "${name}": give a file name without directories`,
+		);
+	}
+	return fileName;
+}
+
+async function filterByOwnFills(
+	trades: Trade[],
+	filter: TradeHistoryFilter,
+): Promise<Trade[]> {
+	if (!filter.side && !filter.tokenId) return trades;
+	const ownAddresses = await tradeApi.getOwnAddresses();
+	return trades.filter((trade) =>
+		getOwnFills(trade, ownAddresses).some((fill) => matchesFill(fill, filter)),
+	);
+}
+
+function matchesFill(fill: OwnFill, filter: TradeHistoryFilter): boolean {
+	return (
+		(!filter.side || fill.side === filter.side) &&
+		(!filter.tokenId || fill.assetId === filter.tokenId)
+	);
+}
+
+function toTradeParams(filter: TradeHistoryFilter): TradeParams | undefined {
+	const params: TradeParams = {
+		...(filter.market && { market: filter.market }),
+		...(filter.makerAddress && { maker_address: filter.makerAddress }),
+		...(filter.after && { after: parseTimestamp(filter.after).toString() }),
+		...(filter.before && { before: parseTimestamp(filter.before).toString() }),
+	};
+	return Object.keys(params).length > 0 ? params : undefined;
+}
+
+function toCsv(rows: TradeExportRow[]): string {
+	const lines = [
+		EXPORT_COLUMNS.join(","),
+		...rows.map((row) => EXPORT_COLUMNS.map((c) => csvCell(row[c])).join(",")),
+	];
+	return `${lines.join("\n")}\n`;
+}
+
+function toJsonl(rows: TradeExportRow[]): string {
+	return rows.map((row) => `${JSON.stringify(row)}\n`).join("");
+}
+
+/**
+ * Quote cells containing separators, quotes or line breaks (RFC 4180)
+ */
+function csvCell(value: string | number): string {
+	const text = String(value ?? "");
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -1,7 +1,11 @@
 import type {
 	BalanceAllowanceParams,
+	OpenOrder,
 	OpenOrderParams,
+	OrderResponse,
+	PostOrdersArgs,
 	TickSize,
+	Trade,
 	TradeParams,
 	UserMarketOrder,
 	UserOrder,
@@ -9,8 +13,31 @@ import type {
 import { ClobClient, OrderType, Side } from "@polymarket/clob-client";
 import { providers, Wallet } from "ethers";
 import { log } from "../util/log.js";
+import { api } from "./api.js";
 import { PolymarketApprovals } from "./approvals.js";
-import { getConfig } from "./config.js";
+import { getConfig, type RiskLimits } from "./config.js";
+import { type ResolvedExpiry, resolveGtdExpiry } from "./expiry.js";
+import {
+	type FillSimulation,
+	getTopOfBook,
+	roundToTick,
+	simulateFill,
+} from "./orderbook.js";
+import {
+	type PendingRiskOrder,
+	PolymarketRisk,
+	type RiskContext,
+	type RiskOrder,
+} from "./risk.js";
+import {
+	type OrderAdjustment,
+	type RoundingDirection,
+	validateLimitOrder,
+	validateMarketOrder,
+} from "./validation.js";
+
+// Cursor the CLOB returns after the last page
+const END_CURSOR = "LTE=";
 
 /** * Interface for trading configuration */
 export interface TradingConfig {
@@ -20,6 +47,8 @@ export interface TradingConfig {
 	signatureType?: number;
 	rpcUrl?: string;
 	host?: string;
+	// Overrides for limits otherwise read from RISK_* env vars
+	riskLimits?: Partial<RiskLimits>;
 }
 
 /**
@@ -29,6 +58,139 @@ interface MarketParams {
 	tickSize: string;
 	negRisk: boolean;
 	feeRateBps?: number;
+	minOrderSize?: number;
+}
+
+/**
+ * Result of a dry run: the signed order that would be posted and its simulated fill
+ */
+export interface OrderPreview {
+	dryRun: true;
+	orderType: string;
+	simulation: FillSimulation;
+	/** Shares left resting on the book after the marketable part fills (limit orders only) */
+	restingSize?: number;
+	/** Worst price signed into a protected market order */
+	priceBound?: number;
+	/** Resolved GTD expiry */
+	expiry?: ResolvedExpiry;
+	/** Prices snapped onto the tick grid by autoRound */
+	adjustments?: OrderAdjustment[];
+	/** Signed order payload exactly as it would be posted; null when it cannot be built */
+	signedOrder: unknown;
+	message?: string;
+}
+
+/**
+ * A single limit order inside a batch post
+ */
+export interface BatchOrderArgs {
+	tokenId: string;
+	price: number;
+	size: number;
+	side: "BUY" | "SELL";
+	orderType?: "GTC" | "GTD";
+	expiration?: number;
+	// GTD expiry as a duration ("2h"), unix/ISO timestamp or "until market end"
+	expiry?: string;
+}
+
+/**
+ * Per-order outcome of a batch post, in the same order as the input
+ */
+export interface BatchOrderResult extends BatchOrderArgs {
+	index: number;
+	success: boolean;
+	orderId?: string;
+	/** Resolved GTD expiry (ISO 8601) */
+	expiresAt?: string;
+	status?: string;
+	error?: string;
+}
+
+/**
+ * Criteria for selecting open orders; all provided criteria must match
+ */
+export interface OpenOrderFilter {
+	/** Market condition ID */
+	market?: string;
+	tokenId?: string;
+	side?: "BUY" | "SELL";
+	minPrice?: number;
+	maxPrice?: number;
+	/** Only orders created at least this many minutes ago */
+	olderThanMinutes?: number;
+}
+
+/**
+ * Result of a filtered cancellation (or its preview)
+ */
+export interface FilteredCancelResult {
+	preview: boolean;
+	matchedCount: number;
+	matched: Array<{
+		id: string;
+		market: string;
+		tokenId: string;
+		outcome: string;
+		side: string;
+		price: number;
+		originalSize: number;
+		sizeMatched: number;
+		createdAt: string;
+	}>;
+	canceled?: string[];
+	notCanceled?: Record<string, string>;
+}
+
+/**
+ * Structured error raised when a market order cannot fill within its price bound
+ */
+export class PriceProtectionError extends Error {
+	code = "PRICE_PROTECTION" as const;
+	details: {
+		side: "BUY" | "SELL";
+		priceBound?: number;
+		bestBid?: number | null;
+		bestAsk?: number | null;
+		midpoint?: number | null;
+		fillableSize?: number;
+		fillableCost?: number;
+	};
+
+	constructor(message: string, details: PriceProtectionError["details"]) {
+		super(message);
+		this.name = "PriceProtectionError";
+		this.details = details;
+	}
+
+	toJSON() {
+		return {
+			priceProtection: true,
+			code: this.code,
+			message: this.message,
+			details: this.details,
+		};
+	}
+}
+
+/**
+ * Outcome of an amend: both order IDs, or the rollback that restored the original
+ */
+export interface ReplaceOrderResult {
+	replaced: boolean;
+	originalOrderId: string;
+	newOrderId?: string;
+	tokenId: string;
+	side: string;
+	original: { price: number; size: number };
+	replacement: { price: number; size: number };
+	error?: string;
+	rollback?: {
+		success: boolean;
+		restoredOrderId?: string;
+		error?: string;
+	};
 }
 
 /** * Class to handle Polymarket trading operations */
@@ -38,6 +200,7 @@ export class PolymarketTrading {
 	private signer: Wallet | null = null;
 	private config: TradingConfig;
 	private marketParamsCache: Map<string, MarketParams> = new Map();
+	private risk: PolymarketRisk;
 
 	constructor(config: TradingConfig) {
 		this.config = {
@@ -46,6 +209,7 @@ export class PolymarketTrading {
 			// Apply detected signature type AFTER spread, so it's not overwritten by undefined
 			signatureType: this.detectSignatureType(config),
 		};
+		this.risk = new PolymarketRisk(config.riskLimits);
 	}
 
 	/**
@@ -170,6 +334,30 @@ export class PolymarketTrading {
 		await approvals.assertApproved();
 	}
 
+	/**
+	 * Throw a structured error if the order breaches any configured risk limit.
+	 * Runs before signing so a rejected order never leaves the process.
+	 * Returns the pending entry to add to a batch context once the order is accepted.
+	 */
+	private async assertRiskLimits(
+		order: RiskOrder,
+		ctx?: RiskContext,
+	): Promise<PendingRiskOrder | undefined> {
+		return this.risk.assertWithinLimits(
+			order,
+			ctx ?? (await this.getRiskContext()),
+		);
+	}
+
+	private async getRiskContext(): Promise<RiskContext> {
+		const ownAddresses = await this.getOwnAddresses();
+		return {
+			client: this.getClient(),
+			walletAddress: this.config.funderAddress ?? ownAddresses[0],
+			ownAddresses,
+		};
+	}
+
 	/**
 	 * Get market parameters (tickSize, negRisk, feeRateBps) for a token.
 	 * Results are cached to avoid repeated API calls.
@@ -184,16 +372,22 @@ export class PolymarketTrading {
 		const client = this.getClient();
 
 		// Fetch market parameters in parallel
-		const [tickSize, negRisk, feeRateBps] = await Promise.all([
+		const [tickSize, negRisk, feeRateBps, minOrderSize] = await Promise.all([
 			client.getTickSize(tokenId),
 			client.getNegRisk(tokenId),
 			client.getFeeRateBps(tokenId).catch(() => 0), // Fee rate might not be available for all markets
+			// Minimum size is only published on the order book
+			client
+				.getOrderBook(tokenId)
+				.then((book) => Number(book.min_order_size) || undefined)
+				.catch(() => undefined),
 		]);
 
 		const params: MarketParams = {
 			tickSize,
 			negRisk,
 			feeRateBps,
+			minOrderSize,
 		};
 
 		// Cache the results
@@ -223,51 +417,243 @@ export class PolymarketTrading {
 		side: "BUY" | "SELL";
 		orderType?: "GTC" | "GTD";
 		expiration?: number;
+		// GTD expiry as a duration ("2h"), unix/ISO timestamp or "until market end"
+		expiry?: string;
 		nonce?: number;
 		// Optional overrides (if you know the market params)
 		tickSize?: string;
 		negRisk?: boolean;
 		feeRateBps?: number;
+		// Snap an off-tick price in this direction instead of rejecting the order
+		autoRound?: RoundingDirection;
+		// Sign and simulate against the book without posting
+		dryRun?: boolean;
 	}): Promise<unknown> {
 		await this.ensureInitialized();
-		await this.assertApprovals();
+		if (!args.dryRun) await this.assertApprovals();
 
 		const side: Side = args.side === "BUY" ? Side.BUY : Side.SELL;
-		const orderTypeStr = args.orderType || "GTC";
+		const orderTypeStr = args.orderType || (args.expiry ? "GTD" : "GTC");
 		const orderType: OrderType.GTC | OrderType.GTD =
 			orderTypeStr === "GTD" ? OrderType.GTD : OrderType.GTC;
 
+		if (args.expiry && orderTypeStr !== "GTD") {
+			throw new Error("expiry only applies to GTD orders");
+		}
+		const expiry = args.expiry
+			? await this.resolveExpiry(args.tokenId, args.expiry)
+			: undefined;
+		const expiration = expiry?.expiration ?? args.expiration;
+		if (orderTypeStr === "GTD" && !expiration) {
+			throw new Error("GTD orders require an expiry");
+		}
+
 		// Auto-detect market parameters if not provided
 		const marketParams = await this.getMarketParams(args.tokenId);
+		const tickSize = args.tickSize ?? marketParams.tickSize;
+
+		const { price, adjustments } = validateLimitOrder(
+			{ price: args.price, size: args.size },
+			{ tickSize, minOrderSize: marketParams.minOrderSize },
+			args.autoRound,
+		);
 
 		const userOrder: UserOrder = {
 			tokenID: args.tokenId,
-			price: args.price,
+			price,
 			size: args.size,
 			side: side,
-			expiration: args.expiration,
+			expiration,
 			nonce: args.nonce,
 			feeRateBps: args.feeRateBps ?? marketParams.feeRateBps,
 		};
 
+		await this.assertRiskLimits({
+			tokenId: args.tokenId,
+			side: args.side,
+			price,
+			size: args.size,
+		});
+
 		const client = this.getClient();
+		const options = {
+			tickSize: tickSize as TickSize,
+			negRisk: args.negRisk ?? marketParams.negRisk,
+		};
+		const extras = {
+			...(expiry && { expiry }),
+			...(adjustments.length > 0 && { adjustments }),
+		};
+
+		if (args.dryRun) {
+			const [signedOrder, book] = await Promise.all([
+				client.createOrder(userOrder, options),
+				api.getOrderBook(args.tokenId),
+			]);
+			const simulation = simulateFill(
+				book,
+				args.side,
+				{ shares: args.size, limitPrice: price },
+				userOrder.feeRateBps,
+			);
+			const preview: OrderPreview = {
+				dryRun: true,
+				orderType: orderTypeStr,
+				simulation,
+				restingSize: Math.max(0, args.size - simulation.filledSize),
+				...extras,
+				signedOrder,
+			};
+			return preview;
+		}
 
 		log(`Placing ${args.side} order:`);
 		log(`   Token: ${args.tokenId}`);
-		log(`   Price: ${args.price}`);
+		log(`   Price: ${price}`);
 		log(`   Size: ${args.size}`);
 		log(
 			`   Market: negRisk=${marketParams.negRisk}, tickSize=${marketParams.tickSize}`,
 		);
 
-		return client.createAndPostOrder(
+		if (expiry) log(`   Expires: ${expiry.expiresAt}`);
+
+		const response = await client.createAndPostOrder(
 			userOrder,
-			{
-				tickSize: (args.tickSize ?? marketParams.tickSize) as TickSize,
-				negRisk: args.negRisk ?? marketParams.negRisk,
-			},
+			options,
 			orderType,
 		);
+		return { ...response, ...extras };
+	}
+
+	/**
+	 * Resolve GTD expiry input against CLOB server time and the market end date
+	 */
+	private async resolveExpiry(
+		tokenId: string,
+		input: string,
+	): Promise<ResolvedExpiry> {
+		const [serverTime, market] = await Promise.all([
+			this.getClient().getServerTime(),
+			api.getMarketByTokenId(tokenId),
+		]);
+		return resolveGtdExpiry(input, serverTime, market?.endDate);
+	}
+
+	/**
+	 * Sign many limit orders and submit them in a single CLOB batch post.
+	 * Orders that fail risk checks or signing are reported individually and
+	 * left out of the batch instead of aborting it.
+	 */
+	async placeOrders(orders: BatchOrderArgs[]): Promise<{
+		submitted: number;
+		succeeded: number;
+		failed: number;
+		results: BatchOrderResult[];
+	}> {
+		await this.ensureInitialized();
+		await this.assertApprovals();
+
+		const client = this.getClient();
+		const results: BatchOrderResult[] = orders.map((order, index) => ({
+			index,
+			...order,
+			success: false,
+		}));
+		const batch: Array<{ index: number; args: PostOrdersArgs }> = [];
+		// One context for the whole batch: each accepted order counts against the next
+		const riskContext: RiskContext = {
+			...(await this.getRiskContext()),
+			pending: [],
+		};
+
+		for (const [index, order] of orders.entries()) {
+			try {
+				const marketParams = await this.getMarketParams(order.tokenId);
+				validateLimitOrder(order, marketParams);
+				const orderType = order.orderType ?? (order.expiry ? "GTD" : "GTC");
+				if (order.expiry && orderType !== "GTD") {
+					throw new Error("expiry only applies to GTD orders");
+				}
+				const expiry = order.expiry
+					? await this.resolveExpiry(order.tokenId, order.expiry)
+					: undefined;
+				const expiration = expiry?.expiration ?? order.expiration;
+				if (orderType === "GTD" && !expiration) {
+					throw new Error("GTD orders require an expiry");
+				}
+				if (expiry) results[index].expiresAt = expiry.expiresAt;
+				const pending = await this.assertRiskLimits(
+					{
+						tokenId: order.tokenId,
+						side: order.side,
+						price: order.price,
+						size: order.size,
+					},
+					riskContext,
+				);
+				const signedOrder = await client.createOrder(
+					{
+						tokenID: order.tokenId,
+						price: order.price,
+						size: order.size,
+						side: order.side === "BUY" ? Side.BUY : Side.SELL,
+						expiration,
+						feeRateBps: marketParams.feeRateBps,
+					},
+					{
+						tickSize: marketParams.tickSize as TickSize,
+						negRisk: marketParams.negRisk,
+					},
+				);
+				if (pending) riskContext.pending?.push(pending);
+				batch.push({
+					index,
+					args: {
+						order: signedOrder,
+						orderType: orderType === "GTD" ? OrderType.GTD : OrderType.GTC,
+					},
+				});
+			} catch (err) {
+				results[index].error = err instanceof Error ? err.message : String(err);
+			}
+		}
+
+		if (batch.length > 0) {
+			log(`Posting batch of ${batch.length} order(s)`);
+			try {
+				const responses = await client.postOrders(batch.map((b) => b.args));
+				if (!Array.isArray(responses)) {
+					throw new Error(
+						(responses as { error?: string })?.error ??
+							"Unexpected batch order response",
+					);
+				}
+				for (const [i, { index }] of batch.entries()) {
+					const response = responses[i] as OrderResponse | undefined;
+					const result = results[index];
+					result.success = !!response?.success;
+					result.orderId = response?.orderID || undefined;
+					result.status = response?.status;
+					if (!result.success) {
+						result.error =
+							response?.errorMsg || "No response for this order in batch";
+					}
+				}
+			} catch (err) {
+				const message = err instanceof Error ? err.message : String(err);
+				for (const { index } of batch) {
+					results[index].error = `Batch post failed: ${message}`;
+				}
+			}
+		}
+
+		const succeeded = results.filter((r) => r.success).length;
+		return {
+			submitted: batch.length,
+			succeeded,
+			failed: results.length - succeeded,
+			results,
+		};
 	}
 
 	/**
@@ -282,9 +668,18 @@ export class PolymarketTrading {
 		tickSize?: string;
 		negRisk?: boolean;
 		feeRateBps?: number;
+		// Worst acceptable fill price: maxPrice bounds BUY orders, minPrice bounds SELL orders
+		maxPrice?: number;
+		minPrice?: number;
+		// Max adverse slippage versus midpoint, in basis points
+		maxSlippageBps?: number;
+		// Snap off-tick maxPrice/minPrice in this direction instead of rejecting the order
+		autoRound?: RoundingDirection;
+		// Sign and simulate against the book without posting
+		dryRun?: boolean;
 	}): Promise<unknown> {
 		await this.ensureInitialized();
-		await this.assertApprovals();
+		if (!args.dryRun) await this.assertApprovals();
 
 		const side: Side = args.side === "BUY" ? Side.BUY : Side.SELL;
 		const orderTypeStr = args.orderType || "FOK";
@@ -293,6 +688,13 @@ export class PolymarketTrading {
 
 		// Auto-detect market parameters if not provided
 		const marketParams = await this.getMarketParams(args.tokenId);
+		const tickSize = args.tickSize ?? marketParams.tickSize;
+
+		const { maxPrice, minPrice, adjustments } = validateMarketOrder(
+			args,
+			{ tickSize, minOrderSize: marketParams.minOrderSize },
+			args.autoRound,
+		);
 
 		const userMarketOrder: UserMarketOrder = {
 			tokenID: args.tokenId,
@@ -301,23 +703,160 @@ export class PolymarketTrading {
 			feeRateBps: args.feeRateBps ?? marketParams.feeRateBps,
 		};
 
+		await this.assertRiskLimits({
+			tokenId: args.tokenId,
+			side: args.side,
+			amount: args.amount,
+		});
+
 		const client = this.getClient();
+		const options = {
+			tickSize: tickSize as TickSize,
+			negRisk: args.negRisk ?? marketParams.negRisk,
+		};
+		const protect =
+			maxPrice !== undefined ||
+			minPrice !== undefined ||
+			args.maxSlippageBps !== undefined;
+
+		if (args.dryRun || protect) {
+			const book = await api.getOrderBook(args.tokenId);
+			const { midpoint } = getTopOfBook(book);
+			const priceBound = protect
+				? this.resolvePriceBound(
+						{ ...args, maxPrice, minPrice },
+						midpoint,
+						options.tickSize,
+					)
+				: undefined;
+			const simulation = simulateFill(
+				book,
+				args.side,
+				{
+					...(args.side === "BUY"
+						? { notional: args.amount }
+						: { shares: args.amount }),
+					limitPrice: priceBound,
+				},
+				userMarketOrder.feeRateBps,
+			);
+
+			let problem: string | undefined;
+			if (simulation.worstPrice === null) {
+				problem =
+					priceBound === undefined
+						? "No liquidity on the opposite side of the book."
+						: `No liquidity within the price bound of ${priceBound}.`;
+			} else if (!simulation.fullyFilled && orderTypeStr === "FOK") {
+				problem =
+					priceBound === undefined
+						? "Insufficient liquidity to fill the full amount; a FOK order would be killed."
+						: `Insufficient liquidity within the price bound of ${priceBound} to fill the full amount; a FOK order would be killed.`;
+			}
+
+			if (args.dryRun) {
+				const preview: OrderPreview = {
+					dryRun: true,
+					orderType: orderTypeStr,
+					simulation,
+					...(priceBound !== undefined && { priceBound }),
+					...(adjustments.length > 0 && { adjustments }),
+					signedOrder: null,
+					...(problem && { message: problem }),
+				};
+				if (simulation.worstPrice === null) return preview;
+				// Sign at the bound, or at the worst price the walk reached as the client would
+				preview.signedOrder = await client.createMarketOrder(
+					{
+						...userMarketOrder,
+						price: priceBound ?? simulation.worstPrice,
+						orderType,
+					},
+					options,
+				);
+				return preview;
+			}
+
+			if (problem) {
+				throw new PriceProtectionError(problem, {
+					side: args.side,
+					priceBound,
+					bestBid: simulation.bestBid,
+					bestAsk: simulation.bestAsk,
+					midpoint: simulation.midpoint,
+					fillableSize: simulation.filledSize,
+					fillableCost: simulation.totalCost,
+				});
+			}
+
+			// Sign the bound into the order so the exchange cannot fill beyond it
+			userMarketOrder.price = priceBound;
+		}
 
 		log(`Placing ${args.side} market order:`);
 		log(`   Token: ${args.tokenId}`);
 		log(`   Amount: ${args.amount}`);
+		if (userMarketOrder.price !== undefined) {
+			log(`   Price bound: ${userMarketOrder.price}`);
+		}
 		log(
 			`   Market: negRisk=${marketParams.negRisk}, tickSize=${marketParams.tickSize}`,
 		);
 
-		return client.createAndPostMarketOrder(
+		const response = await client.createAndPostMarketOrder(
 			userMarketOrder,
-			{
-				tickSize: (args.tickSize ?? marketParams.tickSize) as TickSize,
-				negRisk: args.negRisk ?? marketParams.negRisk,
-			},
+			options,
 			orderType,
 		);
+		return adjustments.length > 0 ? { ...response, adjustments } : response;
+	}
+
+	/**
+	 * Worst acceptable price for a market order, combining explicit bounds with
+	 * max slippage versus midpoint. Rounded to the tick on the protective side.
+	 */
+	private resolvePriceBound(
+		args: {
+			side: "BUY" | "SELL";
+			maxPrice?: number;
+			minPrice?: number;
+			maxSlippageBps?: number;
+		},
+		midpoint: number | null,
+		tickSize: string,
+	): number {
+		const bounds: number[] = [];
+		if (args.side === "BUY" && args.maxPrice !== undefined) {
+			bounds.push(args.maxPrice);
+		}
+		if (args.side === "SELL" && args.minPrice !== undefined) {
+			bounds.push(args.minPrice);
+		}
+		if (args.maxSlippageBps !== undefined) {
+			if (midpoint === null) {
+				throw new PriceProtectionError(
+					"Cannot apply maxSlippageBps: the order book has no midpoint.",
+					{ side: args.side },
+				);
+			}
+			const factor = args.maxSlippageBps / 10_000;
+			bounds.push(
+				args.side === "BUY" ? midpoint * (1 + factor) : midpoint * (1 - factor),
+			);
+		}
+		if (bounds.length === 0) {
+			throw new PriceProtectionError(
+				"maxPrice bounds BUY orders and minPrice bounds SELL orders.",
+				{ side: args.side },
+			);
+		}
+
+		const tick = Number(tickSize);
+		const bound =
+			args.side === "BUY"
+				? roundToTick(Math.min(...bounds), tickSize, "down")
+				: roundToTick(Math.max(...bounds), tickSize, "up");
+		return Math.min(Math.max(bound, tick), 1 - tick);
 	}
 
 	/**
@@ -366,6 +905,144 @@ export class PolymarketTrading {
 		return client.cancelOrders(orderIds);
 	}
 
+	/**
+	 * Amend a resting order: cancel it and post a replacement with the same token
+	 * and side at a new price and/or size. If the replacement is rejected, the
+	 * original's unfilled remainder is re-posted at its old price.
+	 */
+	async replaceOrder(args: {
+		orderId: string;
+		price?: number;
+		size?: number;
+	}): Promise<ReplaceOrderResult> {
+		if (args.price === undefined && args.size === undefined) {
+			throw new Error("Provide a new price, a new size, or both");
+		}
+
+		const original = (await this.getOrder(args.orderId)) as OpenOrder | null;
+		if (!original?.id) {
+			throw new Error(`Order ${args.orderId} not found`);
+		}
+		if (original.status?.toUpperCase() !== "LIVE") {
+			throw new Error(
+				`Order ${args.orderId} is ${original.status}; only live orders can be replaced`,
+			);
+		}
+
+		const side = original.side.toUpperCase() === "BUY" ? "BUY" : "SELL";
+		const orderType = original.order_type === "GTD" ? "GTD" : "GTC";
+		const expiration =
+			orderType === "GTD" ? Number(original.expiration) : undefined;
+		const originalPrice = Number(original.price);
+		const remaining =
+			Number(original.original_size) - Number(original.size_matched);
+		const newPrice = args.price ?? originalPrice;
+		const newSize = args.size ?? remaining;
+
+		// Reject an invalid replacement before the original is canceled
+		validateLimitOrder(
+			{ price: newPrice, size: newSize },
+			await this.getMarketParams(original.asset_id),
+		);
+
+		const cancelResult = (await this.cancelOrder(args.orderId)) as {
+			canceled?: string[];
+			not_canceled?: Record<string, string>;
+		};
+		if (!cancelResult?.canceled?.includes(args.orderId)) {
+			throw new Error(
+				`Could not cancel order ${args.orderId}: ${
+					cancelResult?.not_canceled?.[args.orderId] ?? "unknown reason"
+				}`,
+			);
+		}
+
+		// Fills can land between the read and the cancel: re-read what is left
+		const canceled = (await this.getOrder(args.orderId).catch(
+			() => null,
+		)) as OpenOrder | null;
+		const unfilled = canceled
+			? Number(canceled.original_size) - Number(canceled.size_matched)
+			: remaining;
+		const replacementSize = args.size ?? unfilled;
+
+		const result: ReplaceOrderResult = {
+			replaced: false,
+			originalOrderId: args.orderId,
+			tokenId: original.asset_id,
+			side,
+			original: { price: originalPrice, size: unfilled },
+			replacement: { price: newPrice, size: replacementSize },
+		};
+		if (unfilled <= 0) {
+			result.error = "Order was fully filled before it was canceled";
+			return result;
+		}
+
+		try {
+			const response = (await this.placeOrder({
+				tokenId: original.asset_id,
+				price: newPrice,
+				size: replacementSize,
+				side,
+				orderType,
+				expiration,
+			})) as OrderResponse;
+			if (!response?.success || !response.orderID) {
+				throw new Error(response?.errorMsg || "Replacement was not accepted");
+			}
+			result.replaced = true;
+			result.newOrderId = response.orderID;
+			return result;
+		} catch (err) {
+			result.error = err instanceof Error ? err.message : String(err);
+		}
+
+		// Roll back: restore the unfilled remainder of the original order
+		try {
+			const response = await this.restoreOrder(original, unfilled);
+			if (!response?.success || !response.orderID) {
+				throw new Error(response?.errorMsg || "Restore was not accepted");
+			}
+			result.rollback = { success: true, restoredOrderId: response.orderID };
+		} catch (err) {
+			result.rollback = {
+				success: false,
+				error: err instanceof Error ? err.message : String(err),
+			};
+		}
+		return result;
+	}
+
+	/**
+	 * Re-post a canceled order as it was. Skips validation and risk checks:
+	 * the order was already live, and a rollback must not be blocked by limits.
+	 */
+	private async restoreOrder(
+		order: OpenOrder,
+		size: number,
+	): Promise<OrderResponse> {
+		const marketParams = await this.getMarketParams(order.asset_id);
+		const orderType =
+			order.order_type === "GTD" ? OrderType.GTD : OrderType.GTC;
+		return this.getClient().createAndPostOrder(
+			{
+				tokenID: order.asset_id,
+				price: Number(order.price),
+				size,
+				side: order.side.toUpperCase() === "BUY" ? Side.BUY : Side.SELL,
+				expiration:
+					orderType === OrderType.GTD ? Number(order.expiration) : undefined,
+				feeRateBps: marketParams.feeRateBps,
+			},
+			{
+				tickSize: marketParams.tickSize as TickSize,
+				negRisk: marketParams.negRisk,
+			},
+			orderType,
+		);
+	}
+
 	/**
 	 * Cancel all open orders
 	 */
@@ -386,6 +1063,75 @@ export class PolymarketTrading {
 		return client.cancelMarketOrders({ asset_id: tokenId });
 	}
 
+	/**
+	 * Get open orders matching a filter.
+	 * Market and token are filtered server-side, the rest locally.
+	 */
+	async findOpenOrders(filter: OpenOrderFilter): Promise<OpenOrder[]> {
+		await this.ensureInitialized();
+		const client = this.getClient();
+
+		const params: OpenOrderParams = {};
+		if (filter.market) params.market = filter.market;
+		if (filter.tokenId) params.asset_id = filter.tokenId;
+		const orders = await client.getOpenOrders(
+			Object.keys(params).length > 0 ? params : undefined,
+		);
+
+		const cutoff =
+			filter.olderThanMinutes !== undefined
+				? Date.now() / 1000 - filter.olderThanMinutes * 60
+				: undefined;
+
+		return orders.filter((order) => {
+			const price = Number(order.price);
+			if (filter.side && order.side.toUpperCase() !== filter.side) return false;
+			if (filter.minPrice !== undefined && price < filter.minPrice)
+				return false;
+			if (filter.maxPrice !== undefined && price > filter.maxPrice)
+				return false;
+			if (cutoff !== undefined && Number(order.created_at) > cutoff)
+				return false;
+			return true;
+		});
+	}
+
+	/**
+	 * Cancel every open order matching a filter, or only list them in preview mode.
+	 */
+	async cancelMatchingOrders(
+		filter: OpenOrderFilter,
+		preview = true,
+	): Promise<FilteredCancelResult> {
+		const orders = await this.findOpenOrders(filter);
+		const result: FilteredCancelResult = {
+			preview,
+			matchedCount: orders.length,
+			matched: orders.map((order) => ({
+				id: order.id,
+				market: order.market,
+				tokenId: order.asset_id,
+				outcome: order.outcome,
+				side: order.side,
+				price: Number(order.price),
+				originalSize: Number(order.original_size),
+				sizeMatched: Number(order.size_matched),
+				createdAt: new Date(Number(order.created_at) * 1000).toISOString(),
+			})),
+		};
+		if (preview || orders.length === 0) return result;
+
+		// Cancel by ID so only the orders listed above are touched, never ones
+		// placed after the lookup
+		const response = (await this.cancelOrders(
+			orders.map((order) => order.id),
+		)) as { canceled?: string[]; not_canceled?: Record<string, string> };
+
+		result.canceled = response?.canceled ?? [];
+		result.notCanceled = response?.not_canceled ?? {};
+		return result;
+	}
+
 	/**
 	 * Get trade history
 	 */
@@ -395,6 +1141,26 @@ export class PolymarketTrading {
 		return client.getTrades(params);
 	}
 
+	/**
+	 * Get one page of trade history. The cursor comes from the previous page;
+	 * nextCursor is null once the last page has been read.
+	 */
+	async getTradeHistoryPage(
+		params?: TradeParams,
+		cursor?: string,
+	): Promise<{ trades: Trade[]; nextCursor: string | null }> {
+		await this.ensureInitialized();
+		const client = this.getClient();
+		const page = await client.getTradesPaginated(params, cursor);
+		return {
+			trades: page.trades,
+			nextCursor:
+				page.next_cursor && page.next_cursor !== END_CURSOR
+					? page.next_cursor
+					: null,
+		};
+	}
+
 	/**
 	 * Get balance and allowance information
 	 */
@@ -464,6 +1230,23 @@ export class PolymarketTrading {
 		return this.config.funderAddress;
 	}
 
+	/**
+	 * All addresses that may appear as maker on our fills (signer, then funder)
+	 */
+	async getOwnAddresses(): Promise<string[]> {
+		await this.ensureInitialized();
+		const signerAddress = await this.getSigner().getAddress();
+		const funderAddress = this.config.funderAddress;
+		return funderAddress ? [signerAddress, funderAddress] : [signerAddress];
+	}
+
+	/**
+	 * Get the risk limits enforced on every order
+	 */
+	getRiskLimits(): RiskLimits {
+		return this.risk.getLimits();
+	}
+
 	/**
 	 * Get the current signature type
 	 */
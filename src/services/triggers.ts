@@ -0,0 +1,447 @@
+/**
+ * Conditional Order Service
+ * Local stop-loss / take-profit triggers that sell held tokens with a market
+ * order once a watched price crosses a threshold. Polymarket has no native
+ * stop orders, so the triggers live here and are persisted across restarts.
+ */
+
+import { randomUUID } from "node:crypto";
+import { join } from "node:path";
+import { AssetType, type OrderResponse } from "@polymarket/clob-client";
+import { JsonFileStore } from "../util/json-store.js";
+import { log } from "../util/log.js";
+import { ApprovalRequiredError } from "./approvals.js";
+import { getConfig } from "./config.js";
+import { round } from "./orderbook.js";
+import {
+	getTradingInstance,
+	type PolymarketTrading,
+	PriceProtectionError,
+} from "./trading.js";
+
+// How often active triggers are checked against the market
+const POLL_INTERVAL_MS = 10_000;
+// Conditional tokens use 6 decimals on-chain
+const TOKEN_DECIMALS = 6;
+// Unsold remainder below this counts as fully sold (CLOB sizes have 2 decimals)
+const SIZE_EPSILON = 0.01;
+// Sell attempts before a crossed trigger is given up as FAILED
+const MAX_FIRE_ATTEMPTS = 5;
+// First retry delay after a failed sell; doubles with every attempt
+const RETRY_BASE_MS = POLL_INTERVAL_MS;
+
+export type TriggerType = "STOP_LOSS" | "TAKE_PROFIT";
+export type TriggerStatus = "ACTIVE" | "FIRED" | "CANCELED" | "FAILED";
+/** MIDPOINT watches the book midpoint; BID watches the best bid (the price a SELL would hit) */
+export type TriggerPriceSource = "MIDPOINT" | "BID";
+
+export interface TriggerFill {
+	orderId?: string;
+	status?: string;
+	sharesSold: number;
+	proceeds: number;
+	transactionHashes?: string[];
+	error?: string;
+}
+
+export interface PriceTrigger {
+	id: string;
+	tokenId: string;
+	type: TriggerType;
+	/** STOP_LOSS fires at or below this price, TAKE_PROFIT at or above it */
+	triggerPrice: number;
+	priceSource: TriggerPriceSource;
+	/** Shares to sell; the full balance at fire time when omitted */
+	size?: number;
+	/** Worst acceptable fill price for the SELL */
+	minPrice?: number;
+	/** Triggers in the same group cancel each other when one fires (OCO) */
+	ocoGroup?: string;
+	status: TriggerStatus;
+	createdAt: string;
+	lastCheckedAt?: string;
+	lastObservedPrice?: number;
+	firedAt?: string;
+	firedPrice?: number;
+	fill?: TriggerFill;
+	/** Failed sell attempts; the trigger stays ACTIVE until MAX_FIRE_ATTEMPTS */
+	attempts?: number;
+	/** No new sell attempt before this time (backoff after a failure) */
+	nextAttemptAt?: string;
+	lastError?: string;
+}
+
+export interface CreateTriggersParams {
+	tokenId: string;
+	stopLossPrice?: number;
+	takeProfitPrice?: number;
+	priceSource?: TriggerPriceSource;
+	size?: number;
+	minPrice?: number;
+}
+
+interface TriggerState {
+	triggers: PriceTrigger[];
+}
+
+/**
+ * Trigger engine class
+ */
+export class TriggerEngine {
+	private store: JsonFileStore<TriggerState>;
+	private state: TriggerState;
+	private timer: NodeJS.Timeout | null = null;
+	private polling = false;
+
+	constructor(
+		private readonly trading: PolymarketTrading = getTradingInstance(),
+		store?: JsonFileStore<TriggerState>,
+	) {
+		this.store =
+			store ?? new JsonFileStore(join(getConfig().stateDir, "triggers.json"));
+		this.state = this.store.read({ triggers: [] });
+	}
+
+	/**
+	 * Start watching prices for active triggers
+	 */
+	startScheduler(): void {
+		if (this.timer) return;
+		const active = this.state.triggers.filter((t) => t.status === "ACTIVE");
+		if (active.length > 0) {
+			log(`Watching ${active.length} active trigger(s)`);
+		}
+		this.timer = setInterval(() => void this.poll(), POLL_INTERVAL_MS);
+		this.timer.unref();
+	}
+
+	/**
+	 * Stop watching prices (triggers are kept)
+	 */
+	stopScheduler(): void {
+		if (this.timer) clearInterval(this.timer);
+		this.timer = null;
+	}
+
+	/**
+	 * Create a stop-loss and/or take-profit trigger for a token.
+	 * When both are given they form a one-cancels-other pair.
+	 */
+	createTriggers(params: CreateTriggersParams): PriceTrigger[] {
+		if (
+			params.stopLossPrice === undefined &&
+			params.takeProfitPrice === undefined
+		) {
+			throw new Error("Provide stopLossPrice, takeProfitPrice, or both");
+		}
+		if (
+			params.stopLossPrice !== undefined &&
+			params.takeProfitPrice !== undefined &&
+			params.stopLossPrice >= params.takeProfitPrice
+		) {
+			throw new Error("stopLossPrice must be below takeProfitPrice");
+		}
+
+		const ocoGroup =
+			params.stopLossPrice !== undefined && params.takeProfitPrice !== undefined
+				? randomUUID()
+				: undefined;
+		const base = {
+			tokenId: params.tokenId,
+			priceSource: params.priceSource ?? "MIDPOINT",
+			size: params.size,
+			minPrice: params.minPrice,
+			ocoGroup,
+			status: "ACTIVE" as const,
+			createdAt: new Date().toISOString(),
+		};
+
+		const created: PriceTrigger[] = [];
+		if (params.stopLossPrice !== undefined) {
+			created.push({
+				id: randomUUID(),
+				type: "STOP_LOSS",
+				triggerPrice: params.stopLossPrice,
+				...base,
+			});
+		}
+		if (params.takeProfitPrice !== undefined) {
+			created.push({
+				id: randomUUID(),
+				type: "TAKE_PROFIT",
+				triggerPrice: params.takeProfitPrice,
+				...base,
+			});
+		}
+
+		this.state.triggers.push(...created);
+		this.persist();
+		return created;
+	}
+
+	/**
+	 * List triggers, most recent first, including fill results of fired ones
+	 */
+	listTriggers(filter: { status?: TriggerStatus; tokenId?: string } = {}) {
+		return this.state.triggers
+			.filter(
+				(t) =>
+					(!filter.status || t.status === filter.status) &&
+					(!filter.tokenId || t.tokenId === filter.tokenId),
+			)
+			.reverse();
+	}
+
+	/**
+	 * Cancel an active trigger
+	 */
+	cancelTrigger(id: string): PriceTrigger {
+		const trigger = this.state.triggers.find((t) => t.id === id);
+		if (!trigger) {
+			throw new Error(`Trigger ${id} not found`);
+		}
+		if (trigger.status !== "ACTIVE") {
+			throw new Error(`Trigger ${id} is already ${trigger.status}`);
+		}
+		trigger.status = "CANCELED";
+		this.persist();
+		return trigger;
+	}
+
+	/**
+	 * One pass: fetch each watched price once and fire crossed triggers
+	 */
+	private async poll(): Promise<void> {
+		if (this.polling) return;
+		this.polling = true;
+		try {
+			const active = this.state.triggers.filter((t) => t.status === "ACTIVE");
+			const prices = new Map<string, number | null>();
+
+			for (const trigger of active) {
+				// An OCO sibling may have fired earlier in this pass
+				if (trigger.status !== "ACTIVE") continue;
+				if (
+					trigger.nextAttemptAt &&
+					Date.parse(trigger.nextAttemptAt) > Date.now()
+				) {
+					continue;
+				}
+
+				const key = `${trigger.tokenId}:${trigger.priceSource}`;
+				if (!prices.has(key)) {
+					prices.set(key, await this.fetchPrice(trigger).catch(() => null));
+				}
+				const price = prices.get(key);
+				if (price === null || price === undefined) continue;
+
+				trigger.lastCheckedAt = new Date().toISOString();
+				trigger.lastObservedPrice = price;
+				const crossed =
+					trigger.type === "STOP_LOSS"
+						? price <= trigger.triggerPrice
+						: price >= trigger.triggerPrice;
+				if (crossed) {
+					await this.fire(trigger, price);
+				}
+			}
+			this.persist();
+		} catch (err) {
+			log(
+				`Trigger poll failed: ${err instanceof Error ? err.message : String(err)}`,
+			);
+		} finally {
+			this.polling = false;
+		}
+	}
+
+	/**
+	 * Current watched price for a trigger
+	 */
+	private async fetchPrice(trigger: PriceTrigger): Promise<number | null> {
+		if (trigger.priceSource === "BID") {
+			// The BUY side of the book is the bids, i.e. what a SELL would hit
+			const res = (await this.trading.getPrice(trigger.tokenId, "BUY")) as {
+				price?: string;
+			};
+			return res?.price !== undefined ? Number(res.price) : null;
+		}
+		const res = (await this.trading.getMidpoint(trigger.tokenId)) as {
+			mid?: string;
+		};
+		return res?.mid !== undefined ? Number(res.mid) : null;
+	}
+
+	/**
+	 * Sell the position with a FAK market order and record the result.
+	 * A failed sell keeps the trigger ACTIVE and is retried with backoff; OCO
+	 * siblings are only canceled once the sell went through.
+	 */
+	private async fire(trigger: PriceTrigger, price: number): Promise<void> {
+		log(
+			`${trigger.type} trigger ${trigger.id} fired at ${price} (threshold ${trigger.triggerPrice})`,
+		);
+
+		let retryable = true;
+		try {
+			const sold = trigger.fill?.sharesSold ?? 0;
+			const held = await this.getHeldShares(trigger.tokenId);
+			// An explicit size is sold across fires; never more than is held
+			const size =
+				trigger.size !== undefined
+					? Math.min(round(trigger.size - sold, 2), held)
+					: held;
+			if (size <= 0) {
+				if (sold > 0) {
+					// The position is gone after an earlier partial sell
+					this.markFired(trigger, price);
+					this.persist();
+					return;
+				}
+				retryable = false;
+				throw new Error("No shares held for this token");
+			}
+			const response = (await this.trading.placeMarketOrder({
+				tokenId: trigger.tokenId,
+				side: "SELL",
+				amount: size,
+				orderType: "FAK",
+				...(trigger.minPrice !== undefined && { minPrice: trigger.minPrice }),
+			})) as OrderResponse;
+			if (!response?.success) {
+				throw new Error(
+					response?.errorMsg ||
+						JSON.stringify(response) ||
+						"Order was not accepted",
+				);
+			}
+			const sharesSold = Number(response.makingAmount) || 0;
+			trigger.nextAttemptAt = undefined;
+			trigger.fill = {
+				orderId: response.orderID,
+				status: response.status,
+				sharesSold: round(sold + sharesSold, 2),
+				proceeds: round(
+					(trigger.fill?.proceeds ?? 0) + (Number(response.takingAmount) || 0),
+					2,
+				),
+				transactionHashes: [
+					...(trigger.fill?.transactionHashes ?? []),
+					...(response.transactionsHashes ?? []),
+				],
+			};
+			if (sharesSold >= size - SIZE_EPSILON) {
+				this.markFired(trigger, price);
+			} else {
+				// FAK partial fill: stay ACTIVE to sell the remainder, and keep the
+				// OCO sibling protecting it
+				log(
+					`Trigger ${trigger.id} sold ${sharesSold} of ${size} shares, the rest stays protected`,
+				);
+			}
+		} catch (err) {
+			const message = err instanceof Error ? err.message : String(err);
+			trigger.lastError = message;
+			if (err instanceof PriceProtectionError) {
+				// The bid gapped below minPrice: not fillable yet, not a failure
+				this.persist();
+				return;
+			}
+			const attempts = (trigger.attempts ?? 0) + 1;
+			trigger.attempts = attempts;
+			if (
+				retryable &&
+				!(err instanceof ApprovalRequiredError) &&
+				attempts < MAX_FIRE_ATTEMPTS
+			) {
+				const delay = RETRY_BASE_MS * 2 ** (attempts - 1);
+				trigger.nextAttemptAt = new Date(Date.now() + delay).toISOString();
+				log(
+					`Trigger ${trigger.id} sell failed (attempt ${attempts}/${MAX_FIRE_ATTEMPTS}), retrying in ${delay / 1000}s: ${message}`,
+				);
+			} else {
+				trigger.status = "FAILED";
+				trigger.firedAt = new Date().toISOString();
+				trigger.firedPrice = price;
+				trigger.nextAttemptAt = undefined;
+				trigger.fill = {
+					...(trigger.fill ?? { sharesSold: 0, proceeds: 0 }),
+					error: message,
+				};
+			}
+		}
+		this.persist();
+	}
+
+	/**
+	 * The whole position is sold: close the trigger and its OCO siblings
+	 */
+	private markFired(trigger: PriceTrigger, price: number): void {
+		trigger.status = "FIRED";
+		trigger.firedAt = new Date().toISOString();
+		trigger.firedPrice = price;
+		trigger.nextAttemptAt = undefined;
+		this.cancelSiblings(trigger);
+	}
+
+	/**
+	 * Cancel the other active triggers of the fired trigger's OCO group
+	 */
+	private cancelSiblings(trigger: PriceTrigger): void {
+		if (!trigger.ocoGroup) return;
+		for (const sibling of this.state.triggers) {
+			if (
+				sibling.id !== trigger.id &&
+				sibling.ocoGroup === trigger.ocoGroup &&
+				sibling.status === "ACTIVE"
+			) {
+				sibling.status = "CANCELED";
+			}
+		}
+	}
+
+	/**
+	 * Shares of a token held by the trading wallet
+	 */
+	private async getHeldShares(tokenId: string): Promise<number> {
+		const res = (await this.trading.getBalanceAllowance({
+			asset_type: AssetType.CONDITIONAL,
+			token_id: tokenId,
+		})) as { balance?: string };
+		// Round down to the 2 decimals the CLOB accepts for sizes
+		const shares = Number(res?.balance ?? 0) / 10 ** TOKEN_DECIMALS;
+		return Math.floor(shares * 100) / 100;
+	}
+
+	private persist(): void {
+		this.store.write(this.state);
+	}
+}
+
+// Singleton instance
+let triggerInstance: TriggerEngine | null = null;
+
+/**
+ * Get or create the trigger engine instance
+ */
+export function getTriggerInstance(): TriggerEngine {
+	if (!triggerInstance) {
+		triggerInstance = new TriggerEngine();
+	}
+	return triggerInstance;
+}
+
+// Lazy proxy facade for easy consumption
+export const triggerApi: TriggerEngine = new Proxy({} as TriggerEngine, {
+	get(_target, prop, _receiver) {
+		const instance = getTriggerInstance() as unknown as Record<
+			string | symbol,
+			unknown
+		>;
+		const value = instance[prop as keyof TriggerEngine] as unknown;
+		if (typeof value === "function") {
+			return value.bind(instance);
+		}
+		return value;
+	},
+});
@@ -0,0 +1,214 @@
+/**
+ * Order Validation
+ * Tick-size and minimum-size checks run before an order is signed, so the
+ * caller gets an actionable error instead of an opaque CLOB rejection
+ */
+
+import { round, roundToTick } from "./orderbook.js";
+
+export type RoundingDirection = "up" | "down" | "nearest";
+
+export interface MarketConstraints {
+	tickSize: string;
+	/** Minimum order size in shares (unknown for some markets) */
+	minOrderSize?: number;
+}
+
+export interface OrderValidationIssue {
+	field: "price" | "size" | "amount" | "maxPrice" | "minPrice";
+	message: string;
+	value: number;
+	tickSize?: string;
+	minOrderSize?: number;
+	/** Closest valid prices below and above an off-tick price */
+	nearestValid?: number[];
+}
+
+export interface OrderAdjustment {
+	field: OrderValidationIssue["field"];
+	from: number;
+	to: number;
+	reason: string;
+}
+
+/**
+ * Structured error raised when an order's price or size is not accepted by the market
+ */
+export class OrderValidationError extends Error {
+	code = "ORDER_VALIDATION_FAILED" as const;
+	issues: OrderValidationIssue[];
+
+	constructor(issues: OrderValidationIssue[]) {
+		super(
+			["Order failed validation.", ...issues.map((i) => `- ${i.message}`)].join(
+				"\n",
+			),
+		);
+		this.name = "OrderValidationError";
+		this.issues = issues;
+	}
+
+	toJSON() {
+		return {
+			orderValidationFailed: true,
+			code: this.code,
+			message: this.message,
+			issues: this.issues,
+		};
+	}
+}
+
+/**
+ * Validate a limit order's price and size. With `autoRound` an off-tick or
+ * out-of-range price is snapped onto the grid instead of rejected; sizes are
+ * never adjusted because that would silently change exposure.
+ */
+export function validateLimitOrder(
+	order: { price: number; size: number },
+	constraints: MarketConstraints,
+	autoRound?: RoundingDirection,
+): { price: number; size: number; adjustments: OrderAdjustment[] } {
+	const issues: OrderValidationIssue[] = [];
+	const adjustments: OrderAdjustment[] = [];
+
+	const price = checkPrice(
+		"price",
+		order.price,
+		constraints.tickSize,
+		autoRound,
+		issues,
+		adjustments,
+	);
+	checkMinSize("size", order.size, constraints, issues);
+
+	if (issues.length > 0) {
+		throw new OrderValidationError(issues);
+	}
+	return { price, size: order.size, adjustments };
+}
+
+/**
+ * Validate a market order's explicit price bounds and, for SELL orders, the
+ * share amount. BUY amounts are USDC, so no share minimum applies to them.
+ * Bounds outside the price range are left alone; they are clamped when resolved.
+ */
+export function validateMarketOrder(
+	order: {
+		side: "BUY" | "SELL";
+		amount: number;
+		maxPrice?: number;
+		minPrice?: number;
+	},
+	constraints: MarketConstraints,
+	autoRound?: RoundingDirection,
+): { maxPrice?: number; minPrice?: number; adjustments: OrderAdjustment[] } {
+	const issues: OrderValidationIssue[] = [];
+	const adjustments: OrderAdjustment[] = [];
+
+	const maxPrice =
+		order.maxPrice === undefined
+			? undefined
+			: checkPrice(
+					"maxPrice",
+					order.maxPrice,
+					constraints.tickSize,
+					autoRound,
+					issues,
+					adjustments,
+					false,
+				);
+	const minPrice =
+		order.minPrice === undefined
+			? undefined
+			: checkPrice(
+					"minPrice",
+					order.minPrice,
+					constraints.tickSize,
+					autoRound,
+					issues,
+					adjustments,
+					false,
+				);
+	if (order.side === "SELL") {
+		checkMinSize("amount", order.amount, constraints, issues);
+	}
+
+	if (issues.length > 0) {
+		throw new OrderValidationError(issues);
+	}
+	return { maxPrice, minPrice, adjustments };
+}
+
+/**
+ * Check a price is on the tick grid and within [tick, 1 - tick].
+ * Returns the (possibly rounded) price; problems are pushed onto `issues`.
+ */
+function checkPrice(
+	field: OrderValidationIssue["field"],
+	price: number,
+	tickSize: string,
+	autoRound: RoundingDirection | undefined,
+	issues: OrderValidationIssue[],
+	adjustments: OrderAdjustment[],
+	checkRange = true,
+): number {
+	const tick = Number(tickSize);
+	const min = tick;
+	const max = round(1 - tick, 9);
+	const down = roundToTick(price, tickSize, "down");
+	const up = roundToTick(price, tickSize, "up");
+	const onTick = down === up;
+	const inRange = !checkRange || (price >= min && price <= max);
+	if (onTick && inRange) return price;
+
+	if (autoRound) {
+		const rounded = Math.min(
+			Math.max(roundToTick(price, tickSize, autoRound), min),
+			max,
+		);
+		adjustments.push({
+			field,
+			from: price,
+			to: rounded,
+			reason: onTick
+				? `Price outside the valid range ${min}-${max}`
+				: `Rounded ${autoRound} to tick size ${tickSize}`,
+		});
+		return rounded;
+	}
+
+	issues.push(
+		onTick
+			? {
+					field,
+					message: `${field} ${price} is outside the valid range ${min}-${max}`,
+					value: price,
+					tickSize,
+				}
+			: {
+					field,
+					message: `${field} ${price} is not a multiple of tick size ${tickSize}`,
+					value: price,
+					tickSize,
+					nearestValid: [down, up].filter((p) => p >= min && p <= max),
+				},
+	);
+	return price;
+}
+
+function checkMinSize(
+	field: OrderValidationIssue["field"],
+	size: number,
+	constraints: MarketConstraints,
+	issues: OrderValidationIssue[],
+): void {
+	const { minOrderSize } = constraints;
+	if (minOrderSize !== undefined && size < minOrderSize) {
+		issues.push({
+			field,
+			message: `${field} ${size} is below the market minimum of ${minOrderSize} shares`,
+			value: size,
+			minOrderSize,
+		});
+	}
+}
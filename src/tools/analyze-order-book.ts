@@ -0,0 +1,53 @@
+import { z } from "zod";
+import { api } from "../services/api.js";
+import { analyzeBook } from "../services/orderbook.js";
+import {
+	marketOutcomeFields,
+	resolveTokenInput,
+} from "../util/resolve-token.js";
+
+const analyzeOrderBookSchema = z.object({
+	token_id: z
+		.string()
+		.optional()
+		.describe(
+			"The token ID for the market outcome. Alternatively give market + outcome",
+		),
+	...marketOutcomeFields,
+	depth_cents: z
+		.array(z.number().positive())
+		.optional()
+		.default([1, 2, 5])
+		.describe(
+			"Depth bands: total bid/ask size within each of these distances from the midpoint, in cents (default: [1, 2, 5])",
+		),
+	size: z
+		.number()
+		.positive()
+		.optional()
+		.describe(
+			"Number of shares to price: returns the VWAP, worst price and slippage of filling this size on each side",
+		),
+});
+
+export const analyzeOrderBookTool = {
+	name: "analyze_order_book",
+	description:
+		"Get a pre-computed summary of a market token's order book: best bid/ask, midpoint, spread, cumulative depth within N cents of the midpoint, bid/ask imbalance (+1 all bids, -1 all asks) and, if a size is given, the VWAP to fill it on each side. Prefer this over get_order_book when you need numbers rather than raw levels.",
+	parameters: analyzeOrderBookSchema,
+	execute: async (args: z.infer<typeof analyzeOrderBookSchema>) => {
+		const tokenId = await resolveTokenInput({
+			...args,
+			tokenId: args.token_id,
+		});
+		const book = await api.getOrderBook(tokenId);
+		const data = {
+			tokenId,
+			market: book.market,
+			tickSize: book.tick_size,
+			minOrderSize: book.min_order_size,
+			...analyzeBook(book, { depthCents: args.depth_cents, size: args.size }),
+		};
+		return JSON.stringify(data, null, 2);
+	},
+};
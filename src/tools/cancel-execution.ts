@@ -0,0 +1,19 @@
+import { z } from "zod";
+import { executionApi } from "../services/execution.js";
+
+const cancelExecutionSchema = z.object({
+	executionId: z
+		.string()
+		.describe("The execution ID returned by start_execution"),
+});
+
+export const cancelExecutionTool = {
+	name: "cancel_execution",
+	description:
+		"Cancel a TWAP/iceberg execution and its resting child order. Shares already filled are kept.",
+	parameters: cancelExecutionSchema,
+	execute: async (args: z.infer<typeof cancelExecutionSchema>) => {
+		const result = await executionApi.cancelExecution(args.executionId);
+		return JSON.stringify(result, null, 2);
+	},
+};
@@ -0,0 +1,55 @@
+import { z } from "zod";
+import { tradeApi } from "../services/trading.js";
+import { withApprovalGuard } from "../util/with-approval-guard.js";
+
+const cancelOrdersSchema = z.object({
+	market: z
+		.string()
+		.optional()
+		.describe("Only orders in this market (condition ID)"),
+	tokenId: z
+		.string()
+		.optional()
+		.describe("Only orders on this outcome token ID"),
+	side: z
+		.enum(["BUY", "SELL"])
+		.optional()
+		.describe("Only orders on this side: BUY or SELL"),
+	minPrice: z
+		.number()
+		.min(0)
+		.max(1)
+		.optional()
+		.describe("Only orders priced at or above this price"),
+	maxPrice: z
+		.number()
+		.min(0)
+		.max(1)
+		.optional()
+		.describe("Only orders priced at or below this price"),
+	olderThanMinutes: z
+		.number()
+		.positive()
+		.optional()
+		.describe("Only orders created at least this many minutes ago"),
+	preview: z
+		.boolean()
+		.optional()
+		.default(true)
+		.describe(
+			"List the matching orders without cancelling them. Set to false to cancel. Default: true",
+		),
+});
+
+export const cancelOrdersTool = {
+	name: "cancel_orders",
+	description:
+		"Cancel open orders selected by market, token, side, price range or age. Runs in preview mode by default and returns the matching orders; call again with preview=false to cancel them. Returns which order IDs were canceled and which were not.",
+	parameters: cancelOrdersSchema,
+	execute: async (args: z.infer<typeof cancelOrdersSchema>) => {
+		const { preview, ...filter } = args;
+		return withApprovalGuard(() =>
+			tradeApi.cancelMatchingOrders(filter, preview),
+		);
+	},
+};
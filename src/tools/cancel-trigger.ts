@@ -0,0 +1,16 @@
+import { z } from "zod";
+import { triggerApi } from "../services/triggers.js";
+
+const cancelTriggerSchema = z.object({
+	triggerId: z.string().describe("The trigger ID returned by create_trigger"),
+});
+
+export const cancelTriggerTool = {
+	name: "cancel_trigger",
+	description: "Cancel an active stop-loss or take-profit trigger.",
+	parameters: cancelTriggerSchema,
+	execute: async (args: z.infer<typeof cancelTriggerSchema>) => {
+		const result = triggerApi.cancelTrigger(args.triggerId);
+		return JSON.stringify(result, null, 2);
+	},
+};
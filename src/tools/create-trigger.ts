@@ -0,0 +1,50 @@
+import { z } from "zod";
+import { triggerApi } from "../services/triggers.js";
+
+const createTriggerSchema = z.object({
+	tokenId: z.string().describe("The token ID of the held outcome to protect"),
+	stopLossPrice: z
+		.number()
+		.min(0)
+		.max(1)
+		.optional()
+		.describe("Sell when the watched price falls to or below this price"),
+	takeProfitPrice: z
+		.number()
+		.min(0)
+		.max(1)
+		.optional()
+		.describe("Sell when the watched price rises to or above this price"),
+	priceSource: z
+		.enum(["MIDPOINT", "BID"])
+		.optional()
+		.describe(
+			"Price to watch: MIDPOINT of the book or best BID (the price a sell would hit). Default: MIDPOINT",
+		),
+	size: z
+		.number()
+		.positive()
+		.optional()
+		.describe(
+			"Number of shares to sell when triggered. Default: the full balance held at trigger time",
+		),
+	minPrice: z
+		.number()
+		.min(0)
+		.max(1)
+		.optional()
+		.describe(
+			"Worst acceptable fill price for the triggered sell. Without it the sell takes whatever bids are available.",
+		),
+});
+
+export const createTriggerTool = {
+	name: "create_trigger",
+	description:
+		"Create a local stop-loss and/or take-profit trigger for a held token. The server watches the price and sends a FAK market SELL once the threshold is crossed. Passing both prices creates a one-cancels-other pair; the other trigger is canceled once the whole position has sold; after a partial fill the trigger stays active for the rest. While the bid is below minPrice the trigger keeps waiting; other failed sells are retried with backoff before the trigger is marked FAILED. Triggers persist across restarts but only fire while the server is running.",
+	parameters: createTriggerSchema,
+	execute: async (args: z.infer<typeof createTriggerSchema>) => {
+		const result = triggerApi.createTriggers(args);
+		return JSON.stringify(result, null, 2);
+	},
+};
@@ -0,0 +1,17 @@
+import { z } from "zod";
+import { getEventOverview } from "../services/events.js";
+
+const eventOverviewSchema = z.object({
+	slug: z.string().describe("The event slug identifier"),
+});
+
+export const eventOverviewTool = {
+	name: "event_overview",
+	description:
+		"Get a compact overview of a multi-outcome (e.g. neg-risk candidate) event in one call: each outcome with its YES/NO token IDs, live best bid/ask, midpoint and volume, plus the sum of YES prices, normalized implied probabilities and the overround (sum - 1). When an open outcome has no midpoint the sums are null and the outcome is listed as unpriced. Use this instead of get_event_by_slug to reason about the whole event.",
+	parameters: eventOverviewSchema,
+	execute: async (args: z.infer<typeof eventOverviewSchema>) => {
+		const data = await getEventOverview(args.slug);
+		return JSON.stringify(data, null, 2);
+	},
+};
@@ -0,0 +1,39 @@
+import { z } from "zod";
+import { exportTradeHistory } from "../services/trade-history.js";
+import { tradeFilterFields } from "../util/trade-filters.js";
+
+const exportTradeHistorySchema = z.object({
+	...tradeFilterFields,
+	format: z
+		.enum(["csv", "jsonl"])
+		.optional()
+		.default("csv")
+		.describe("File format (default: csv)"),
+	path: z
+		.string()
+		.optional()
+		.describe(
+			"File name to write in the exports folder of POLYMARKET_STATE_DIR (no directories; existing files are not overwritten). Defaults to a timestamped name",
+		),
+});
+
+export const exportTradeHistoryTool = {
+	name: "export_trade_history",
+	description:
+		"Export the complete trade history of the authenticated account (all pages) to a CSV or JSONL file in the local exports folder for tax and reconciliation jobs. Writes one row per fill with normalized columns: timestamp, trade ID, market, market title, outcome, token, side, price, size, notional, fee rate, fee, role (TAKER/MAKER), status and transaction hash. Returns the file path and row count.",
+	parameters: exportTradeHistorySchema,
+	execute: async (args: z.infer<typeof exportTradeHistorySchema>) => {
+		const result = await exportTradeHistory({
+			filter: {
+				market: args.market,
+				tokenId: args.token_id,
+				side: args.side,
+				after: args.after,
+				before: args.before,
+			},
+			format: args.format,
+			path: args.path,
+		});
+		return JSON.stringify(result, null, 2);
+	},
+};
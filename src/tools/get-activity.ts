@@ -0,0 +1,134 @@
+import { z } from "zod";
+import { api } from "../services/api.js";
+import { getConfig } from "../services/config.js";
+import { ACTIVITY_TYPES, fetchActivity } from "../services/data-api.js";
+import { parseTimestamp } from "../services/price-history.js";
+
+const getActivitySchema = z.object({
+	user: z
+		.string()
+		.optional()
+		.describe(
+			"Wallet address to fetch activity for. If not provided, uses POLYMARKET_FUNDER env var.",
+		),
+	types: z
+		.array(z.enum(ACTIVITY_TYPES))
+		.optional()
+		.describe("Only these activity types (default: all)"),
+	markets: z
+		.array(z.string())
+		.optional()
+		.describe("Only activity in these markets (slugs or condition IDs)"),
+	start: z
+		.string()
+		.optional()
+		.describe("Only activity from this time (unix seconds or ISO 8601)"),
+	end: z
+		.string()
+		.optional()
+		.describe("Only activity up to this time (unix seconds or ISO 8601)"),
+	oldest_first: z
+		.boolean()
+		.optional()
+		.default(false)
+		.describe("Sort oldest first instead of newest first (default: false)"),
+	limit: z
+		.number()
+		.int()
+		.positive()
+		.max(500)
+		.optional()
+		.default(100)
+		.describe("Maximum number of entries to return (default: 100, max: 500)"),
+	offset: z
+		.number()
+		.int()
+		.nonnegative()
+		.optional()
+		.default(0)
+		.describe("Entries to skip, for pagination (use next_offset)"),
+});
+
+export interface ActivityOutput {
+	timestamp: string;
+	type: string;
+	title: string | null;
+	slug: string | null;
+	outcome: string | null;
+	side: string | null;
+	size: number;
+	usdcSize: number;
+	price: number | null;
+	asset: string | null;
+	conditionId: string;
+	transactionHash: string;
+}
+
+export const getActivityTool = {
+	name: "get_activity",
+	description:
+		"Get a chronological activity feed for a wallet from the Polymarket Data API: trades, splits, merges, redemptions, conversions and rewards. Each entry carries the market title and outcome. Filter by type, market and time window; page with limit and next_offset.",
+	parameters: getActivitySchema,
+	execute: async (args: z.infer<typeof getActivitySchema>) => {
+		const config = getConfig();
+		const userAddress = args.user ?? config.funderAddress;
+
+		if (!userAddress) {
+			throw new Error(
+				"No wallet address provided. Either pass 'user' parameter or set POLYMARKET_FUNDER environment variable.",
+			);
+		}
+
+		// The Data API filters by condition ID, so slugs are resolved first
+		const markets = args.markets
+			? await Promise.all(
+					args.markets.map(
+						async (m) => (await api.resolveMarket(m)).conditionId,
+					),
+				)
+			: undefined;
+
+		try {
+			const entries = await fetchActivity(userAddress, {
+				limit: args.limit,
+				offset: args.offset,
+				types: args.types,
+				markets,
+				start: args.start ? parseTimestamp(args.start) : undefined,
+				end: args.end ? parseTimestamp(args.end) : undefined,
+				sortDirection: args.oldest_first ? "ASC" : "DESC",
+			});
+
+			const activity: ActivityOutput[] = entries.map((a) => ({
+				timestamp: new Date(a.timestamp * 1000).toISOString(),
+				type: a.type,
+				title: a.title || null,
+				slug: a.slug || null,
+				outcome: a.outcome || null,
+				side: a.side || null,
+				size: Number(a.size),
+				usdcSize: Number(a.usdcSize),
+				price: a.price !== undefined ? Number(a.price) : null,
+				asset: a.asset || null,
+				conditionId: a.conditionId,
+				transactionHash: a.transactionHash,
+			}));
+
+			return JSON.stringify(
+				{
+					walletAddress: userAddress,
+					count: activity.length,
+					// A full page means there may be more
+					next_offset:
+						activity.length === args.limit ? args.offset + args.limit : null,
+					activity,
+				},
+				null,
+				2,
+			);
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			throw new Error(`Failed to fetch activity: ${message}`);
+		}
+	},
+};
@@ -1,14 +1,42 @@
 import { z } from "zod";
 import { api } from "../services/api.js";
+import { compactTag, type GammaTagRef, matchTags } from "../services/tags.js";
+import { bypassCacheField } from "../util/cache-options.js";
 
-const getAllTagsSchema = z.object({});
+const getAllTagsSchema = z.object({
+	search: z
+		.string()
+		.optional()
+		.describe(
+			"Only tags whose label or slug matches this text (fuzzy), best matches first",
+		),
+	limit: z
+		.number()
+		.int()
+		.positive()
+		.optional()
+		.default(50)
+		.describe("Number of tags to return (default: 50)"),
+	...bypassCacheField,
+});
 
 export const getAllTagsTool = {
 	name: "get_all_tags",
-	description: "Get a list of all available tags for categorizing markets.",
+	description:
+		"Get the available tags for categorizing markets as compact { id, label, slug } entries. Use search to find a tag by name instead of listing them all.",
 	parameters: getAllTagsSchema,
-	execute: async () => {
-		const data = await api.getAllTags();
+	execute: async (args: z.infer<typeof getAllTagsSchema>) => {
+		const tags = (await api.getAllTags({
+			bypassCache: args.bypass_cache,
+		})) as GammaTagRef[];
+		const matches = args.search
+			? matchTags(tags, args.search)
+			: tags.map(compactTag);
+		const data = {
+			total: matches.length,
+			returned: Math.min(matches.length, args.limit),
+			tags: matches.slice(0, args.limit),
+		};
 		return JSON.stringify(data, null, 2);
 	},
 };
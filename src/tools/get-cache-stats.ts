@@ -0,0 +1,24 @@
+import { z } from "zod";
+import { api } from "../services/api.js";
+
+const getCacheStatsSchema = z.object({
+	clear: z
+		.boolean()
+		.optional()
+		.default(false)
+		.describe(
+			"Clear all cached responses and reset the statistics after reporting them (default: false)",
+		),
+});
+
+export const getCacheStatsTool = {
+	name: "get_cache_stats",
+	description:
+		"Report statistics for the Gamma API response cache (entries, hits, misses, de-duplicated in-flight requests, evictions, hit rate) and optionally clear it.",
+	parameters: getCacheStatsSchema,
+	execute: async (args: z.infer<typeof getCacheStatsSchema>) => {
+		const stats = api.getCacheStats();
+		const data = args.clear ? { ...stats, cleared: api.clearCache() } : stats;
+		return JSON.stringify(data, null, 2);
+	},
+};
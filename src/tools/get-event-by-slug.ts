@@ -1,8 +1,10 @@
 import { z } from "zod";
 import { api } from "../services/api.js";
+import { bypassCacheField } from "../util/cache-options.js";
 
 const getEventBySlugSchema = z.object({
 	slug: z.string().describe("The event slug identifier"),
+	...bypassCacheField,
 });
 
 export const getEventBySlugTool = {
@@ -11,7 +13,9 @@ export const getEventBySlugTool = {
 		"Get detailed information about a specific event by its slug identifier. Events group multiple related markets.",
 	parameters: getEventBySlugSchema,
 	execute: async (args: z.infer<typeof getEventBySlugSchema>) => {
-		const data = await api.getEventBySlug(args.slug);
+		const data = await api.getEventBySlug(args.slug, {
+			bypassCache: args.bypass_cache,
+		});
 		return JSON.stringify(data, null, 2);
 	},
 };
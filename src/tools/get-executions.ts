@@ -0,0 +1,46 @@
+import { z } from "zod";
+import { executionApi } from "../services/execution.js";
+
+const getExecutionsSchema = z.object({
+	executionId: z
+		.string()
+		.optional()
+		.describe(
+			"Execution ID to inspect in detail. If omitted, lists all executions.",
+		),
+	status: z
+		.enum(["RUNNING", "PAUSED", "COMPLETED", "CANCELED", "FAILED"])
+		.optional()
+		.describe("When listing, only return executions with this status"),
+});
+
+export const getExecutionsTool = {
+	name: "get_executions",
+	description:
+		"Inspect TWAP/iceberg executions: filled size, status, next slice time and every child order. Pass executionId for one execution (fills are refreshed from the CLOB), or omit it to list all.",
+	parameters: getExecutionsSchema,
+	execute: async (args: z.infer<typeof getExecutionsSchema>) => {
+		if (args.executionId) {
+			const result = await executionApi.getExecution(args.executionId);
+			return JSON.stringify(result, null, 2);
+		}
+		const executions = executionApi.listExecutions(args.status);
+		return JSON.stringify(
+			executions.map((e) => ({
+				id: e.id,
+				strategy: e.strategy,
+				tokenId: e.tokenId,
+				side: e.side,
+				status: e.status,
+				totalSize: e.totalSize,
+				filledSize: e.filledSize,
+				percentFilled: Math.round((e.filledSize / e.totalSize) * 10_000) / 100,
+				limitPrice: e.limitPrice,
+				childOrders: e.children.length,
+				updatedAt: e.updatedAt,
+			})),
+			null,
+			2,
+		);
+	},
+};
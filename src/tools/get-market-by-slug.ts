@@ -1,10 +1,12 @@
 import { z } from "zod";
 import { api } from "../services/api.js";
+import { bypassCacheField } from "../util/cache-options.js";
 
 const getMarketBySlugSchema = z.object({
 	slug: z
 		.string()
 		.describe("The market slug identifier (e.g., 'will-trump-win-2024')"),
+	...bypassCacheField,
 });
 
 export const getMarketBySlugTool = {
@@ -13,7 +15,9 @@ export const getMarketBySlugTool = {
 		"Get detailed information about a specific market by its slug identifier. The slug can be extracted from the Polymarket URL.",
 	parameters: getMarketBySlugSchema,
 	execute: async (args: z.infer<typeof getMarketBySlugSchema>) => {
-		const data = await api.getMarketBySlug(args.slug);
+		const data = await api.getMarketBySlug(args.slug, {
+			bypassCache: args.bypass_cache,
+		});
 		return JSON.stringify(data, null, 2);
 	},
 };
@@ -0,0 +1,24 @@
+import { z } from "zod";
+import { marketStream } from "../services/market-stream.js";
+
+const getMarketSnapshotSchema = z.object({
+	token_id: z.string().describe("Token ID of a subscribed market outcome"),
+	depth: z
+		.number()
+		.int()
+		.positive()
+		.optional()
+		.default(10)
+		.describe("Number of price levels to return per side (default: 10)"),
+});
+
+export const getMarketSnapshotTool = {
+	name: "get_market_snapshot",
+	description:
+		"Get the live local order book for a token subscribed with subscribe_market_data: best bid/ask, midpoint, spread, last trade price and the top levels on each side. Answers instantly without calling the CLOB.",
+	parameters: getMarketSnapshotSchema,
+	execute: async (args: z.infer<typeof getMarketSnapshotSchema>) => {
+		const data = marketStream.getSnapshot(args.token_id, args.depth);
+		return JSON.stringify(data, null, 2);
+	},
+};
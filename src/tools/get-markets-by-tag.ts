@@ -1,8 +1,20 @@
 import { z } from "zod";
-import { api } from "../services/api.js";
+import { api, type GammaMarketRef } from "../services/api.js";
+import { bypassCacheField } from "../util/cache-options.js";
+
+// When searching, fetch a wider page so filtering still fills the limit
+const SEARCH_FETCH_LIMIT = 500;
 
 const getMarketsByTagSchema = z.object({
-	tag_id: z.string().describe("The tag ID to filter by"),
+	tag_id: z
+		.string()
+		.describe(
+			"The tag to filter by: numeric tag ID, slug (e.g. 'politics') or label. Labels are matched fuzzily",
+		),
+	search: z
+		.string()
+		.optional()
+		.describe("Only markets whose question or slug contains this text"),
 	limit: z
 		.number()
 		.optional()
@@ -13,19 +25,33 @@ const getMarketsByTagSchema = z.object({
 		.optional()
 		.default(false)
 		.describe("Include closed markets (default: false)"),
+	...bypassCacheField,
 });
 
 export const getMarketsByTagTool = {
 	name: "get_markets_by_tag",
 	description:
-		"Get markets filtered by a specific tag ID. Useful for finding markets in specific categories.",
+		"Get markets filtered by a tag, given as a tag ID, slug or label. Useful for finding markets in specific categories. Optionally narrow them with a text search. Returns the resolved tag alongside the markets.",
 	parameters: getMarketsByTagSchema,
 	execute: async (args: z.infer<typeof getMarketsByTagSchema>) => {
-		const data = await api.getMarketsByTag(
-			args.tag_id,
-			args.limit,
+		const tag = await api.resolveTag(args.tag_id);
+		const search = args.search?.trim().toLowerCase();
+		const data = (await api.getMarketsByTag(
+			tag.id,
+			search ? SEARCH_FETCH_LIMIT : args.limit,
 			args.closed,
-		);
-		return JSON.stringify(data, null, 2);
+			{ bypassCache: args.bypass_cache },
+		)) as GammaMarketRef[];
+
+		const markets = search
+			? data
+					.filter((m) =>
+						[m.question, m.slug].some((text) =>
+							text?.toLowerCase().includes(search),
+						),
+					)
+					.slice(0, args.limit)
+			: data;
+		return JSON.stringify({ tag, count: markets.length, markets }, null, 2);
 	},
 };
@@ -0,0 +1,21 @@
+import { z } from "zod";
+import { api } from "../services/api.js";
+
+const getMidpointsSchema = z.object({
+	token_ids: z
+		.array(z.string())
+		.min(1)
+		.max(500)
+		.describe("Token IDs of the market outcomes"),
+});
+
+export const getMidpointsTool = {
+	name: "get_midpoints",
+	description:
+		"Get the midpoint price (halfway between best bid and best ask) for many market tokens in a single batch request. Returns a map of token ID to midpoint. Works without a private key.",
+	parameters: getMidpointsSchema,
+	execute: async (args: z.infer<typeof getMidpointsSchema>) => {
+		const data = await api.getMidpoints(args.token_ids);
+		return JSON.stringify(data, null, 2);
+	},
+};
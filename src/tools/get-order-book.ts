@@ -1,8 +1,18 @@
 import { z } from "zod";
 import { api } from "../services/api.js";
+import {
+	marketOutcomeFields,
+	resolveTokenInput,
+} from "../util/resolve-token.js";
 
 const getOrderBookSchema = z.object({
-	token_id: z.string().describe("The token ID for the market outcome"),
+	token_id: z
+		.string()
+		.optional()
+		.describe(
+			"The token ID for the market outcome. Alternatively give market + outcome",
+		),
+	...marketOutcomeFields,
 });
 
 export const getOrderBookTool = {
@@ -11,7 +21,11 @@ export const getOrderBookTool = {
 		"Get the current order book for a specific market token. Shows all active buy and sell orders.",
 	parameters: getOrderBookSchema,
 	execute: async (args: z.infer<typeof getOrderBookSchema>) => {
-		const data = await api.getOrderBook(args.token_id);
+		const tokenId = await resolveTokenInput({
+			...args,
+			tokenId: args.token_id,
+		});
+		const data = await api.getOrderBook(tokenId);
 		return JSON.stringify(data, null, 2);
 	},
 };
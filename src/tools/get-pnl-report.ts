@@ -0,0 +1,39 @@
+import { z } from "zod";
+import { getPnlReport } from "../services/pnl.js";
+
+const getPnlReportSchema = z.object({
+	method: z
+		.enum(["fifo", "average"])
+		.optional()
+		.default("fifo")
+		.describe(
+			"Cost basis method: 'fifo' sells the oldest shares first, 'average' uses the running average cost (default: fifo)",
+		),
+	start: z
+		.string()
+		.optional()
+		.describe(
+			"Only count realized P&L and fees from this time (unix seconds or ISO 8601). Earlier buys still set the cost basis",
+		),
+	end: z
+		.string()
+		.optional()
+		.describe(
+			"Ignore fills after this time (unix seconds or ISO 8601). Default: now",
+		),
+});
+
+export const getPnlReportTool = {
+	name: "get_pnl_report",
+	description:
+		"Compute a P&L report for the authenticated account from its own trade history, independently of the Data API. Rebuilds per-token and per-market cost basis (FIFO or average cost) and reports realized P&L, unrealized P&L on open positions marked to the current midpoint (resolved markets at their payout), fees paid and net P&L, optionally within a date range.",
+	parameters: getPnlReportSchema,
+	execute: async (args: z.infer<typeof getPnlReportSchema>) => {
+		const data = await getPnlReport({
+			method: args.method,
+			start: args.start,
+			end: args.end,
+		});
+		return JSON.stringify(data, null, 2);
+	},
+};
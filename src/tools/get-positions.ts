@@ -1,7 +1,11 @@
 import { z } from "zod";
 import { getConfig } from "../services/config.js";
-
-const DATA_API_URL = "https://data-api.polymarket.com";
+import { fetchPositions } from "../services/data-api.js";
+import {
+	EXPOSURE_GROUPS,
+	groupPositions,
+	summarizeExposure,
+} from "../services/exposure.js";
 
 const getPositionsSchema = z.object({
 	user: z
@@ -15,36 +19,14 @@ const getPositionsSchema = z.object({
 		.optional()
 		.default(100)
 		.describe("Maximum number of positions to return (default: 100)"),
+	group_by: z
+		.enum(EXPOSURE_GROUPS)
+		.optional()
+		.describe(
+			"Group positions by event slug, event tag or end-date bucket, with each group's share of total value",
+		),
 });
 
-interface DataApiPosition {
-	proxyWallet: string;
-	asset: string;
-	conditionId: string;
-	size: number;
-	avgPrice: number;
-	initialValue: number;
-	currentValue: number;
-	cashPnl: number;
-	percentPnl: number;
-	totalBought: number;
-	realizedPnl: number;
-	percentRealizedPnl: number;
-	curPrice: number;
-	redeemable: boolean;
-	mergeable: boolean;
-	title: string;
-	slug: string;
-	icon?: string;
-	eventSlug?: string;
-	outcome: string;
-	outcomeIndex: number;
-	oppositeOutcome: string;
-	oppositeAsset: string;
-	endDate?: string;
-	negativeRisk: boolean;
-}
-
 export interface PositionOutput {
 	asset: string;
 	conditionId: string;
@@ -60,32 +42,10 @@ export interface PositionOutput {
 	redeemable: boolean;
 }
 
-async function fetchPositions(
-	user: string,
-	limit: number,
-	redeemable: boolean,
-): Promise<DataApiPosition[]> {
-	const params = new URLSearchParams({
-		user,
-		limit: limit.toString(),
-		redeemable: redeemable.toString(),
-	});
-
-	const response = await fetch(`${DATA_API_URL}/positions?${params}`);
-
-	if (!response.ok) {
-		throw new Error(
-			`Data API request failed: ${response.status} ${response.statusText}`,
-		);
-	}
-
-	return response.json();
-}
-
 export const getPositionsTool = {
 	name: "get_positions",
 	description:
-		"Get all positions for a wallet address with current values. Returns position details including size, current price, current value, and P&L. Uses the Polymarket Data API for accurate position valuation.",
+		"Get all positions for a wallet address with current values. Returns position details including size, current price, current value, and P&L, plus an exposure summary: concentration per event and worst/best case payouts that account for mutually exclusive outcomes in neg-risk events. Optionally groups positions by event, tag or end date. Uses the Polymarket Data API for accurate position valuation.",
 	parameters: getPositionsSchema,
 	execute: async (args: z.infer<typeof getPositionsSchema>) => {
 		const config = getConfig();
@@ -133,12 +93,21 @@ export const getPositionsTool = {
 				redeemable: p.redeemable ?? false,
 			}));
 
+			const [exposure, groups] = await Promise.all([
+				summarizeExposure(allPositions),
+				args.group_by
+					? groupPositions(allPositions, args.group_by)
+					: Promise.resolve(undefined),
+			]);
+
 			return JSON.stringify(
 				{
 					walletAddress: userAddress,
 					totalPositions: positions.length,
 					totalValue: Math.round(totalValue * 100) / 100,
 					totalCashPnl: Math.round(totalCashPnl * 100) / 100,
+					exposure,
+					...(groups && { groupBy: args.group_by, groups }),
 					positions,
 				},
 				null,
@@ -0,0 +1,125 @@
+import { z } from "zod";
+import { api } from "../services/api.js";
+import {
+	CANDLE_INTERVALS,
+	type CandleInterval,
+	PRICE_RANGES,
+	type PriceRange,
+	parseTimestamp,
+	summarizeSeries,
+	toCandles,
+} from "../services/price-history.js";
+import {
+	marketOutcomeFields,
+	resolveTokenInput,
+} from "../util/resolve-token.js";
+
+const getPriceHistorySchema = z.object({
+	token_id: z
+		.string()
+		.optional()
+		.describe(
+			"Token ID of the market outcome. Alternatively give market + outcome",
+		),
+	...marketOutcomeFields,
+	range: z
+		.enum(Object.keys(PRICE_RANGES) as [PriceRange, ...PriceRange[]])
+		.optional()
+		.describe(
+			"Lookback window ending at end, or now (1m = one month). Ignored when start is given. Default: 1d",
+		),
+	start: z
+		.string()
+		.optional()
+		.describe("Range start as unix seconds or ISO 8601 date"),
+	end: z
+		.string()
+		.optional()
+		.describe(
+			"Range end as unix seconds or ISO 8601 date (default: now). Without start, the range is counted back from it",
+		),
+	interval: z
+		.enum(
+			Object.keys(CANDLE_INTERVALS) as [CandleInterval, ...CandleInterval[]],
+		)
+		.optional()
+		.default("1h")
+		.describe("Candle size for OHLC aggregation (default: 1h)"),
+	format: z
+		.enum(["ohlc", "points"])
+		.optional()
+		.default("ohlc")
+		.describe(
+			"ohlc: candles aggregated at the chosen interval; points: raw price points. Default: ohlc",
+		),
+	fidelity: z
+		.number()
+		.positive()
+		.optional()
+		.describe(
+			"Resolution of the raw points fetched from the CLOB, in minutes. Lower values give finer candles",
+		),
+});
+
+export const getPriceHistoryTool = {
+	name: "get_price_history",
+	description:
+		"Get how a market outcome's price has moved over time. Accepts a token ID or a market (slug or condition ID) plus outcome, a time range, and a candle interval. Returns OHLC candles (or raw points) with summary stats: open/close, change, high/low and volatility (standard deviation of point-to-point changes).",
+	parameters: getPriceHistorySchema,
+	execute: async (args: z.infer<typeof getPriceHistorySchema>) => {
+		const tokenId = await resolveTokenInput({
+			...args,
+			tokenId: args.token_id,
+		});
+
+		const endTs = args.end
+			? parseTimestamp(args.end)
+			: args.start
+				? Math.floor(Date.now() / 1000)
+				: undefined;
+		const startTs = args.start
+			? parseTimestamp(args.start)
+			: endTs !== undefined
+				? rangeStart(endTs, args.range ?? "1d")
+				: undefined;
+		if (startTs !== undefined && endTs !== undefined && startTs >= endTs) {
+			throw new Error("start must be before end");
+		}
+
+		const history = await api.getPriceHistory({
+			tokenId,
+			...(startTs !== undefined
+				? { startTs, endTs }
+				: { interval: args.range ?? "1d" }),
+			...(args.fidelity !== undefined && { fidelity: args.fidelity }),
+		});
+
+		const data = {
+			tokenId,
+			stats: summarizeSeries(history),
+			...(args.format === "points"
+				? {
+						points: history.map((pt) => ({
+							time: new Date(pt.t * 1000).toISOString(),
+							price: pt.p,
+						})),
+					}
+				: {
+						interval: args.interval,
+						candles: toCandles(history, args.interval),
+					}),
+		};
+		return JSON.stringify(data, null, 2);
+	},
+};
+
+/**
+ * Start of a lookback window ending at `endTs`
+ */
+function rangeStart(endTs: number, range: PriceRange): number {
+	const seconds = PRICE_RANGES[range];
+	if (seconds === null) {
+		throw new Error(`range "${range}" cannot be combined with end; give start`);
+	}
+	return endTs - seconds;
+}
@@ -0,0 +1,27 @@
+import { z } from "zod";
+import { api } from "../services/api.js";
+
+const getPricesSchema = z.object({
+	token_ids: z
+		.array(z.string())
+		.min(1)
+		.max(500)
+		.describe("Token IDs of the market outcomes to price"),
+	side: z
+		.enum(["BUY", "SELL"])
+		.optional()
+		.describe(
+			"BUY returns the best bid, SELL the best ask. Default: both sides",
+		),
+});
+
+export const getPricesTool = {
+	name: "get_prices",
+	description:
+		"Get the best bid and/or ask for many market tokens in a single batch request. Returns a map of token ID to { BUY: best bid, SELL: best ask }. Works without a private key.",
+	parameters: getPricesSchema,
+	execute: async (args: z.infer<typeof getPricesSchema>) => {
+		const data = await api.getPrices(args.token_ids, args.side);
+		return JSON.stringify(data, null, 2);
+	},
+};
@@ -0,0 +1,41 @@
+import { z } from "zod";
+import { api } from "../services/api.js";
+import { compactTag } from "../services/tags.js";
+import { bypassCacheField } from "../util/cache-options.js";
+
+const getRelatedTagsSchema = z.object({
+	tag: z
+		.string()
+		.describe(
+			"Tag ID, slug (e.g. 'politics') or label. Labels are matched fuzzily",
+		),
+	limit: z
+		.number()
+		.int()
+		.positive()
+		.optional()
+		.default(20)
+		.describe("Number of related tags to return (default: 20)"),
+	...bypassCacheField,
+});
+
+export const getRelatedTagsTool = {
+	name: "get_related_tags",
+	description:
+		"Get tags related to a tag (e.g. sub-categories and neighbouring topics) to navigate between market categories. The tag can be given as an ID, slug or label.",
+	parameters: getRelatedTagsSchema,
+	execute: async (args: z.infer<typeof getRelatedTagsSchema>) => {
+		const tag = await api.resolveTag(args.tag);
+		const related = await api.getRelatedTags(tag.id, {
+			bypassCache: args.bypass_cache,
+		});
+		const data = {
+			tag,
+			related: related
+				.filter((t) => String(t.id) !== tag.id)
+				.slice(0, args.limit)
+				.map(compactTag),
+		};
+		return JSON.stringify(data, null, 2);
+	},
+};
@@ -0,0 +1,21 @@
+import { z } from "zod";
+import { api } from "../services/api.js";
+
+const getSpreadsSchema = z.object({
+	token_ids: z
+		.array(z.string())
+		.min(1)
+		.max(500)
+		.describe("Token IDs of the market outcomes"),
+});
+
+export const getSpreadsTool = {
+	name: "get_spreads",
+	description:
+		"Get the bid-ask spread for many market tokens in a single batch request. Returns a map of token ID to spread. Works without a private key.",
+	parameters: getSpreadsSchema,
+	execute: async (args: z.infer<typeof getSpreadsSchema>) => {
+		const data = await api.getSpreads(args.token_ids);
+		return JSON.stringify(data, null, 2);
+	},
+};
@@ -1,30 +1,44 @@
 import { z } from "zod";
-import { tradeApi } from "../services/trading.js";
+import { getTradeHistoryPage } from "../services/trade-history.js";
+import { tradeFilterFields } from "../util/trade-filters.js";
 
 const getTradeHistorySchema = z.object({
-	market: z
-		.string()
-		.optional()
-		.describe("Optional market address to filter trades by"),
+	...tradeFilterFields,
 	maker_address: z
 		.string()
 		.optional()
 		.describe("Optional maker address to filter trades by"),
+	cursor: z
+		.string()
+		.optional()
+		.describe("next_cursor from the previous page to continue from"),
 });
 
 export const getTradeHistoryTool = {
 	name: "get_trade_history",
 	description:
-		"Get trade history for the authenticated account. Can optionally filter by market or maker address.",
+		"Get one page of trade history for the authenticated account. Can filter by market, token, our side and a before/after time window. Pass next_cursor back as cursor to fetch the next page; it is null on the last page. Use export_trade_history to write the complete history to a file.",
 	parameters: getTradeHistorySchema,
 	execute: async (args: z.infer<typeof getTradeHistorySchema>) => {
-		const params: Record<string, string> = {};
-		if (args.market) params.market = args.market;
-		if (args.maker_address) params.maker_address = args.maker_address;
-
-		const result = await tradeApi.getTradeHistory(
-			Object.keys(params).length > 0 ? params : undefined,
+		const page = await getTradeHistoryPage(
+			{
+				market: args.market,
+				tokenId: args.token_id,
+				makerAddress: args.maker_address,
+				side: args.side,
+				after: args.after,
+				before: args.before,
+			},
+			args.cursor,
+		);
+		return JSON.stringify(
+			{
+				count: page.trades.length,
+				next_cursor: page.nextCursor,
+				trades: page.trades,
+			},
+			null,
+			2,
 		);
-		return JSON.stringify(result, null, 2);
 	},
 };
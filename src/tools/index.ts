@@ -1,19 +1,47 @@
+export { analyzeOrderBookTool } from "./analyze-order-book.js";
 export { approveAllowancesTool } from "./approve-allowances.js";
 export { cancelAllOrdersTool } from "./cancel-all-orders.js";
+export { cancelExecutionTool } from "./cancel-execution.js";
 export { cancelOrderTool } from "./cancel-order.js";
+export { cancelOrdersTool } from "./cancel-orders.js";
+export { cancelTriggerTool } from "./cancel-trigger.js";
+export { createTriggerTool } from "./create-trigger.js";
+export { eventOverviewTool } from "./event-overview.js";
+export { exportTradeHistoryTool } from "./export-trade-history.js";
+export { getActivityTool } from "./get-activity.js";
 export { getAllTagsTool } from "./get-all-tags.js";
 export { getBalanceAllowanceTool } from "./get-balance-allowance.js";
+export { getCacheStatsTool } from "./get-cache-stats.js";
 export { getEventBySlugTool } from "./get-event-by-slug.js";
+export { getExecutionsTool } from "./get-executions.js";
 export { getMarketBySlugTool } from "./get-market-by-slug.js";
+export { getMarketSnapshotTool } from "./get-market-snapshot.js";
 export { getMarketsByTagTool } from "./get-markets-by-tag.js";
+export { getMidpointsTool } from "./get-midpoints.js";
 export { getOpenOrdersTool } from "./get-open-orders.js";
 export { getOrderTool } from "./get-order.js";
 export { getOrderBookTool } from "./get-order-book.js";
+export { getPnlReportTool } from "./get-pnl-report.js";
 export { getPositionsTool } from "./get-positions.js";
+export { getPriceHistoryTool } from "./get-price-history.js";
+export { getPricesTool } from "./get-prices.js";
+export { getRelatedTagsTool } from "./get-related-tags.js";
+export { getSpreadsTool } from "./get-spreads.js";
 export { getTradeHistoryTool } from "./get-trade-history.js";
 export { listActiveMarketsTool } from "./list-active-markets.js";
+export { listTriggersTool } from "./list-triggers.js";
+export { pauseExecutionTool } from "./pause-execution.js";
 export { placeMarketOrderTool } from "./place-market-order.js";
 export { placeOrderTool } from "./place-order.js";
+export { placeOrdersTool } from "./place-orders.js";
+export { redeemAllTool } from "./redeem-all.js";
 export { redeemPositionsTool } from "./redeem-positions.js";
+export { replaceOrderTool } from "./replace-order.js";
+export { resumeExecutionTool } from "./resume-execution.js";
+export { scanNegRiskArbitrageTool } from "./scan-neg-risk-arbitrage.js";
+export { screenMarketsTool } from "./screen-markets.js";
 export { searchMarketsTool } from "./search-markets.js";
+export { startExecutionTool } from "./start-execution.js";
+export { subscribeMarketDataTool } from "./subscribe-market-data.js";
+export { unsubscribeMarketDataTool } from "./unsubscribe-market-data.js";
 export { updateBalanceAllowanceTool } from "./update-balance-allowance.js";
@@ -1,5 +1,6 @@
 import { z } from "zod";
 import { api } from "../services/api.js";
+import { bypassCacheField } from "../util/cache-options.js";
 
 const listActiveMarketsSchema = z.object({
 	limit: z
@@ -12,6 +13,7 @@ const listActiveMarketsSchema = z.object({
 		.optional()
 		.default(0)
 		.describe("Number of markets to skip for pagination (default: 0)"),
+	...bypassCacheField,
 });
 
 export const listActiveMarketsTool = {
@@ -20,7 +22,9 @@ export const listActiveMarketsTool = {
 		"List all currently active markets with pagination. Returns markets that are not yet closed.",
 	parameters: listActiveMarketsSchema,
 	execute: async (args: z.infer<typeof listActiveMarketsSchema>) => {
-		const data = await api.listActiveMarkets(args.limit, args.offset);
+		const data = await api.listActiveMarkets(args.limit, args.offset, {
+			bypassCache: args.bypass_cache,
+		});
 		return JSON.stringify(data, null, 2);
 	},
 };
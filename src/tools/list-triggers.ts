@@ -0,0 +1,24 @@
+import { z } from "zod";
+import { triggerApi } from "../services/triggers.js";
+
+const listTriggersSchema = z.object({
+	status: z
+		.enum(["ACTIVE", "FIRED", "CANCELED", "FAILED"])
+		.optional()
+		.describe("Only return triggers with this status"),
+	tokenId: z
+		.string()
+		.optional()
+		.describe("Only return triggers for this token"),
+});
+
+export const listTriggersTool = {
+	name: "list_triggers",
+	description:
+		"List stop-loss and take-profit triggers with their last observed price. Fired triggers include when they fired, the price that fired them and the fill result of the market sell.",
+	parameters: listTriggersSchema,
+	execute: async (args: z.infer<typeof listTriggersSchema>) => {
+		const result = triggerApi.listTriggers(args);
+		return JSON.stringify(result, null, 2);
+	},
+};
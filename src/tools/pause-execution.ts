@@ -0,0 +1,19 @@
+import { z } from "zod";
+import { executionApi } from "../services/execution.js";
+
+const pauseExecutionSchema = z.object({
+	executionId: z
+		.string()
+		.describe("The execution ID returned by start_execution"),
+});
+
+export const pauseExecutionTool = {
+	name: "pause_execution",
+	description:
+		"Pause a running TWAP/iceberg execution. Its resting child order is canceled; filled shares are kept. Resume later with resume_execution.",
+	parameters: pauseExecutionSchema,
+	execute: async (args: z.infer<typeof pauseExecutionSchema>) => {
+		const result = await executionApi.pauseExecution(args.executionId);
+		return JSON.stringify(result, null, 2);
+	},
+};
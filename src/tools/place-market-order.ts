@@ -1,9 +1,19 @@
 import { z } from "zod";
 import { tradeApi } from "../services/trading.js";
+import {
+	marketOutcomeFields,
+	resolveTokenInput,
+} from "../util/resolve-token.js";
 import { withApprovalGuard } from "../util/with-approval-guard.js";
 
 const placeMarketOrderSchema = z.object({
-	tokenId: z.string().describe("The token ID of the market outcome to trade"),
+	tokenId: z
+		.string()
+		.optional()
+		.describe(
+			"The token ID of the market outcome to trade. Alternatively give market + outcome",
+		),
+	...marketOutcomeFields,
 	amount: z
 		.number()
 		.positive()
@@ -17,20 +27,62 @@ const placeMarketOrderSchema = z.object({
 		.describe(
 			"Order type: FOK (Fill or Kill) or FAK (Fill and Kill). Default: FOK",
 		),
+	maxPrice: z
+		.number()
+		.min(0)
+		.max(1)
+		.optional()
+		.describe(
+			"BUY orders only: worst (highest) acceptable fill price. Checked against the live book and signed into the order so the exchange cannot fill above it.",
+		),
+	minPrice: z
+		.number()
+		.min(0)
+		.max(1)
+		.optional()
+		.describe(
+			"SELL orders only: worst (lowest) acceptable fill price. Checked against the live book and signed into the order so the exchange cannot fill below it.",
+		),
+	maxSlippageBps: z
+		.number()
+		.positive()
+		.optional()
+		.describe(
+			"Max adverse slippage versus the current midpoint, in basis points (100 = 1%). Combined with maxPrice/minPrice, the tighter bound wins.",
+		),
+	autoRound: z
+		.enum(["up", "down", "nearest"])
+		.optional()
+		.describe(
+			"Opt-in: snap an off-tick maxPrice/minPrice to the market's tick size in this direction instead of rejecting the order. Adjustments are reported in the response.",
+		),
+	dryRun: z
+		.boolean()
+		.optional()
+		.describe(
+			"Preview only: sign the order and simulate it against the current order book (fill price, filled size, cost, fees, slippage vs midpoint) without posting. Default: false",
+		),
 });
 
 export const placeMarketOrderTool = {
 	name: "place_market_order",
 	description:
-		"Place a market order that executes immediately at current market price. IMPORTANT: For BUY orders, amount is the dollar amount ($USD) you want to spend. For SELL orders, amount is the number of shares to sell. Example: amount=5, side=BUY means 'spend $5 to buy shares at market price'. Minimum $1 for BUY orders.",
+		"Place a market order that executes immediately at current market price. IMPORTANT: For BUY orders, amount is the dollar amount ($USD) you want to spend. For SELL orders, amount is the number of shares to sell. Example: amount=5, side=BUY means 'spend $5 to buy shares at market price'. Minimum $1 for BUY orders. Use maxPrice (BUY), minPrice (SELL) or maxSlippageBps to bound the worst fill price. Set dryRun=true to preview the expected fill and signed order without posting.",
 	parameters: placeMarketOrderSchema,
 	execute: async (args: z.infer<typeof placeMarketOrderSchema>) =>
-		withApprovalGuard(() =>
+		withApprovalGuard(async () =>
 			tradeApi.placeMarketOrder({
-				tokenId: args.tokenId,
+				tokenId: await resolveTokenInput(args),
 				amount: args.amount,
 				side: args.side,
 				...(args.orderType && { orderType: args.orderType }),
+				...(args.maxPrice !== undefined && { maxPrice: args.maxPrice }),
+				...(args.minPrice !== undefined && { minPrice: args.minPrice }),
+				...(args.maxSlippageBps !== undefined && {
+					maxSlippageBps: args.maxSlippageBps,
+				}),
+				...(args.autoRound && { autoRound: args.autoRound }),
+				...(args.dryRun && { dryRun: true }),
 			}),
 		),
 };
@@ -1,9 +1,19 @@
 import { z } from "zod";
 import { tradeApi } from "../services/trading.js";
+import {
+	marketOutcomeFields,
+	resolveTokenInput,
+} from "../util/resolve-token.js";
 import { withApprovalGuard } from "../util/with-approval-guard.js";
 
 const placeOrderSchema = z.object({
-	tokenId: z.string().describe("The token ID of the market outcome to trade"),
+	tokenId: z
+		.string()
+		.optional()
+		.describe(
+			"The token ID of the market outcome to trade. Alternatively give market + outcome",
+		),
+	...marketOutcomeFields,
 	price: z
 		.number()
 		.min(0)
@@ -22,23 +32,44 @@ const placeOrderSchema = z.object({
 		.enum(["GTC", "GTD"])
 		.optional()
 		.describe(
-			"Order type: GTC (Good Till Cancelled) or GTD (Good Till Date). Default: GTC",
+			"Order type: GTC (Good Till Cancelled) or GTD (Good Till Date). Default: GTC, or GTD when expiry is given",
+		),
+	expiry: z
+		.string()
+		.optional()
+		.describe(
+			"GTD expiry: a duration like '30m', '2h' or '1d', an absolute unix/ISO timestamp, or 'until market end'. Validated against CLOB server time and the market end date; the CLOB's one-minute expiry buffer is added automatically.",
+		),
+	autoRound: z
+		.enum(["up", "down", "nearest"])
+		.optional()
+		.describe(
+			"Opt-in: snap an off-tick price to the market's tick size in this direction (and into the valid price range) instead of rejecting the order. Adjustments are reported in the response. Sizes are never changed.",
+		),
+	dryRun: z
+		.boolean()
+		.optional()
+		.describe(
+			"Preview only: sign the order and simulate it against the current order book (fill price, filled size, cost, fees, slippage vs midpoint) without posting. Default: false",
 		),
 });
 
 export const placeOrderTool = {
 	name: "place_order",
 	description:
-		"Place a limit order on Polymarket at a specific price. Specify the number of shares (size) and price (0-1). For both BUY and SELL, you specify the number of shares you want to trade. Example: size=10, price=0.6 means buy/sell 10 shares at $0.60 per share (total: $6).",
+		"Place a limit order on Polymarket at a specific price. Set dryRun=true to preview the fill and signed order without posting. Specify the number of shares (size) and price (0-1). For both BUY and SELL, you specify the number of shares you want to trade. Example: size=10, price=0.6 means buy/sell 10 shares at $0.60 per share (total: $6).",
 	parameters: placeOrderSchema,
 	execute: async (args: z.infer<typeof placeOrderSchema>) =>
-		withApprovalGuard(() =>
+		withApprovalGuard(async () =>
 			tradeApi.placeOrder({
-				tokenId: args.tokenId,
+				tokenId: await resolveTokenInput(args),
 				price: args.price,
 				size: args.size,
 				side: args.side,
 				...(args.orderType && { orderType: args.orderType }),
+				...(args.expiry && { expiry: args.expiry }),
+				...(args.autoRound && { autoRound: args.autoRound }),
+				...(args.dryRun && { dryRun: true }),
 			}),
 		),
 };
@@ -0,0 +1,49 @@
+import { z } from "zod";
+import { tradeApi } from "../services/trading.js";
+import { withApprovalGuard } from "../util/with-approval-guard.js";
+
+const placeOrdersSchema = z.object({
+	orders: z
+		.array(
+			z.object({
+				tokenId: z
+					.string()
+					.describe("The token ID of the market outcome to trade"),
+				price: z
+					.number()
+					.min(0)
+					.max(1)
+					.describe("The limit price for the order (between 0 and 1)"),
+				size: z.number().positive().describe("Number of shares to trade"),
+				side: z
+					.enum(["BUY", "SELL"])
+					.describe("The side of the order: BUY or SELL"),
+				orderType: z
+					.enum(["GTC", "GTD"])
+					.optional()
+					.describe(
+						"Order type: GTC or GTD. Default: GTC, or GTD when expiry is given",
+					),
+				expiry: z
+					.string()
+					.optional()
+					.describe(
+						"GTD expiry: a duration like '30m', '2h' or '1d', an absolute unix/ISO timestamp, or 'until market end'. Required for GTD orders",
+					),
+			}),
+		)
+		.min(1)
+		.max(15)
+		.describe(
+			"Limit orders to submit together in one batch (max 15, the CLOB batch limit)",
+		),
+});
+
+export const placeOrdersTool = {
+	name: "place_orders",
+	description:
+		"Place several limit orders in a single CLOB batch post, e.g. to quote a ladder across price levels. Each order is signed with its market's tick size and neg-risk flag. Returns success or failure for every order, in input order.",
+	parameters: placeOrdersSchema,
+	execute: async (args: z.infer<typeof placeOrdersSchema>) =>
+		withApprovalGuard(() => tradeApi.placeOrders(args.orders)),
+};
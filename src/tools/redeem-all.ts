@@ -0,0 +1,33 @@
+import { z } from "zod";
+import { redeemAll } from "../services/redeem-all.js";
+
+const redeemAllSchema = z.object({
+	preview: z
+		.boolean()
+		.optional()
+		.default(false)
+		.describe(
+			"Only report what would be redeemed (balances, path and expected USDC) without sending transactions (default: false)",
+		),
+	includeZeroPayout: z
+		.boolean()
+		.optional()
+		.default(false)
+		.describe(
+			"Also redeem losing positions that pay nothing, to clear them from the wallet (costs gas; default: false)",
+		),
+});
+
+export const redeemAllTool = {
+	name: "redeem_all",
+	description:
+		"Redeem (claim) every redeemable position of the wallet in one call. Finds redeemable positions via the Data API, checks on-chain that each market is resolved and what it pays, and picks the CTF or NegRiskAdapter path automatically. Sends one transaction per market, covering every outcome held in it. Returns a per-market summary with status, transaction hash and USDC received. Use preview=true to see what would be redeemed first.",
+	parameters: redeemAllSchema,
+	execute: async (args: z.infer<typeof redeemAllSchema>) => {
+		const result = await redeemAll({
+			preview: args.preview,
+			includeZeroPayout: args.includeZeroPayout,
+		});
+		return JSON.stringify(result, null, 2);
+	},
+};
@@ -1,13 +1,17 @@
 import { z } from "zod";
-import { redemptionApi } from "../services/redemption.js";
+import { api } from "../services/api.js";
+import { type RedeemParams, redemptionApi } from "../services/redemption.js";
+import { marketOutcomeFields } from "../util/resolve-token.js";
 
 const redeemPositionsSchema = z
 	.object({
 		conditionId: z
 			.string()
+			.optional()
 			.describe(
-				"The condition ID (market ID) for the resolved market. This is typically a 32-byte hex string.",
+				"The condition ID (market ID) for the resolved market. This is typically a 32-byte hex string. Alternatively give market (plus outcome for negRisk markets).",
 			),
+		...marketOutcomeFields,
 		tokenId: z
 			.string()
 			.optional()
@@ -23,13 +27,20 @@ const redeemPositionsSchema = z
 		negRisk: z
 			.boolean()
 			.optional()
-			.default(false)
 			.describe(
-				"Whether this is a negative risk market. Negative risk markets use the NegRiskAdapter contract for redemption. Default: false",
+				"Whether this is a negative risk market. Negative risk markets use the NegRiskAdapter contract for redemption. Default: false, or detected from the market when market is given",
 			),
 	})
 	.superRefine((data, ctx) => {
-		if (data.negRisk) {
+		if (!data.conditionId && !data.market) {
+			ctx.addIssue({
+				code: z.ZodIssueCode.custom,
+				message: "Provide either `conditionId` or `market`.",
+				path: ["conditionId"],
+			});
+		}
+		// With market + outcome the token and outcome index are resolved
+		if (data.negRisk && !(data.market && data.outcome)) {
 			if (!data.tokenId) {
 				ctx.addIssue({
 					code: z.ZodIssueCode.custom,
@@ -49,19 +60,60 @@ const redeemPositionsSchema = z
 		}
 	});
 
+/**
+ * Fill in condition ID, negRisk, token and outcome index from market + outcome
+ */
+async function resolveRedeemParams(
+	args: z.infer<typeof redeemPositionsSchema>,
+): Promise<RedeemParams> {
+	if (!args.market) {
+		return {
+			conditionId: args.conditionId ?? "",
+			tokenId: args.tokenId,
+			outcomeIndex: args.outcomeIndex,
+			negRisk: args.negRisk ?? false,
+		};
+	}
+
+	if (!args.outcome) {
+		const market = await api.resolveMarket(args.market);
+		const negRisk = args.negRisk ?? market.negRisk ?? false;
+		if (negRisk && (!args.tokenId || args.outcomeIndex === undefined)) {
+			throw new Error(
+				`${market.slug} is a negRisk market: give the outcome to redeem`,
+			);
+		}
+		return {
+			conditionId: args.conditionId ?? market.conditionId,
+			tokenId: args.tokenId,
+			outcomeIndex: args.outcomeIndex,
+			negRisk,
+		};
+	}
+
+	const resolved = await api.resolveOutcome(args.market, args.outcome);
+	const outcomeIndex =
+		resolved.outcomeIndex === 0 || resolved.outcomeIndex === 1
+			? resolved.outcomeIndex
+			: undefined;
+	return {
+		conditionId: args.conditionId ?? resolved.conditionId,
+		tokenId: args.tokenId ?? resolved.tokenId,
+		outcomeIndex: args.outcomeIndex ?? outcomeIndex,
+		negRisk: args.negRisk ?? resolved.negRisk,
+	};
+}
+
 export const redeemPositionsTool = {
 	name: "redeem_positions",
 	description:
-		"Redeem (claim) winnings from a resolved Polymarket prediction market. Use this to collect USDC from positions in markets that have been settled. For regular markets, you need the conditionId. For negative risk markets, you also need the tokenId and should set negRisk=true. The market must be resolved before redemption is possible.",
+		"Redeem (claim) winnings from a resolved Polymarket prediction market. Use this to collect USDC from positions in markets that have been settled. For regular markets, you need the conditionId or the market slug. For negative risk markets, you also need the tokenId and should set negRisk=true, or give market + outcome and both are detected. The market must be resolved before redemption is possible.",
 	parameters: redeemPositionsSchema,
 	execute: async (args: z.infer<typeof redeemPositionsSchema>) => {
 		try {
-			const result = await redemptionApi.redeemPositions({
-				conditionId: args.conditionId,
-				tokenId: args.tokenId,
-				outcomeIndex: args.outcomeIndex,
-				negRisk: args.negRisk,
-			});
+			const result = await redemptionApi.redeemPositions(
+				await resolveRedeemParams(args),
+			);
 
 			if (result.success) {
 				return JSON.stringify(
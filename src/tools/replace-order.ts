@@ -0,0 +1,29 @@
+import { z } from "zod";
+import { tradeApi } from "../services/trading.js";
+import { withApprovalGuard } from "../util/with-approval-guard.js";
+
+const replaceOrderSchema = z.object({
+	orderId: z.string().describe("The ID of the live order to replace"),
+	price: z
+		.number()
+		.min(0)
+		.max(1)
+		.optional()
+		.describe("New limit price. Default: keep the original price"),
+	size: z
+		.number()
+		.positive()
+		.optional()
+		.describe(
+			"New number of shares. Default: the original order's unfilled remainder",
+		),
+});
+
+export const replaceOrderTool = {
+	name: "replace_order",
+	description:
+		"Amend a resting limit order in one step: cancels it and posts a replacement with the same token, side and order type at a new price and/or size. Returns both order IDs. If the replacement is rejected, the original's unfilled remainder is restored at its old price and the rollback result is reported.",
+	parameters: replaceOrderSchema,
+	execute: async (args: z.infer<typeof replaceOrderSchema>) =>
+		withApprovalGuard(() => tradeApi.replaceOrder(args)),
+};
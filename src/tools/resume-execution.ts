@@ -0,0 +1,19 @@
+import { z } from "zod";
+import { executionApi } from "../services/execution.js";
+
+const resumeExecutionSchema = z.object({
+	executionId: z
+		.string()
+		.describe("The execution ID returned by start_execution"),
+});
+
+export const resumeExecutionTool = {
+	name: "resume_execution",
+	description:
+		"Resume a paused TWAP/iceberg execution. TWAP slices continue from now with the remaining size spread over the remaining slices.",
+	parameters: resumeExecutionSchema,
+	execute: async (args: z.infer<typeof resumeExecutionSchema>) => {
+		const result = await executionApi.resumeExecution(args.executionId);
+		return JSON.stringify(result, null, 2);
+	},
+};
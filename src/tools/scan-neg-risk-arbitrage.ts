@@ -0,0 +1,70 @@
+import { z } from "zod";
+import { api } from "../services/api.js";
+import { scanNegRiskArbitrage } from "../services/arbitrage.js";
+
+const scanNegRiskArbitrageSchema = z
+	.object({
+		event_slug: z
+			.string()
+			.optional()
+			.describe("Scan a single event by slug, with a full breakdown"),
+		tag: z
+			.string()
+			.optional()
+			.describe(
+				"Scan the active neg-risk events of a tag (ID, slug or label). Omit both event_slug and tag to scan all active neg-risk events",
+			),
+		size: z
+			.number()
+			.positive()
+			.optional()
+			.default(100)
+			.describe(
+				"Target number of complete sets, i.e. shares per outcome (default: 100)",
+			),
+		min_edge: z
+			.number()
+			.min(0)
+			.optional()
+			.default(0)
+			.describe(
+				"Minimum profit per set in USDC, after fees, to report (default: 0)",
+			),
+		max_events: z
+			.number()
+			.int()
+			.positive()
+			.max(1000)
+			.optional()
+			.default(100)
+			.describe(
+				"Maximum number of events to page through for tag and all-events scans (default: 100, max: 1000)",
+			),
+	})
+	.superRefine((data, ctx) => {
+		if (data.event_slug && data.tag) {
+			ctx.addIssue({
+				code: z.ZodIssueCode.custom,
+				message: "Provide either `event_slug` or `tag`, not both.",
+				path: ["tag"],
+			});
+		}
+	});
+
+export const scanNegRiskArbitrageTool = {
+	name: "scan_neg_risk_arbitrage",
+	description:
+		"Scan neg-risk events (one event, a tag, or all active ones) for mispricing. Fetches the book of every outcome and walks it at the target size: BUY_ALL_YES profits when buying one YES of every outcome costs less than $1 per set, SELL_ALL_YES when selling one YES of every outcome yields more than $1 (requires holding the YES shares). Profits are after taker fees from each token's feeRateBps. Opportunities list the legs with sizes, average and worst prices (usable as limit prices).",
+	parameters: scanNegRiskArbitrageSchema,
+	execute: async (args: z.infer<typeof scanNegRiskArbitrageSchema>) => {
+		const tag = args.tag ? await api.resolveTag(args.tag) : undefined;
+		const data = await scanNegRiskArbitrage({
+			eventSlug: args.event_slug,
+			tagId: tag?.id,
+			size: args.size,
+			minEdge: args.min_edge,
+			maxEvents: args.max_events,
+		});
+		return JSON.stringify(tag ? { tag, ...data } : data, null, 2);
+	},
+};
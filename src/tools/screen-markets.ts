@@ -0,0 +1,112 @@
+import { z } from "zod";
+import { SCREEN_SORT_KEYS, screenMarkets } from "../services/screener.js";
+
+const screenMarketsSchema = z.object({
+	min_volume: z
+		.number()
+		.nonnegative()
+		.optional()
+		.describe("Minimum lifetime volume in USDC"),
+	min_volume_24h: z
+		.number()
+		.nonnegative()
+		.optional()
+		.describe("Minimum 24h volume in USDC"),
+	min_liquidity: z
+		.number()
+		.nonnegative()
+		.optional()
+		.describe("Minimum liquidity in USDC"),
+	end_date_min: z
+		.string()
+		.optional()
+		.describe(
+			"Only markets ending on or after this date (unix seconds or ISO 8601)",
+		),
+	end_date_max: z
+		.string()
+		.optional()
+		.describe(
+			"Only markets ending on or before this date (unix seconds or ISO 8601)",
+		),
+	tag_ids: z
+		.array(z.string())
+		.optional()
+		.describe("Only markets in any of these tag IDs (see get_all_tags)"),
+	neg_risk: z
+		.boolean()
+		.optional()
+		.describe("Only neg-risk (true) or only regular (false) markets"),
+	min_price: z
+		.number()
+		.min(0)
+		.max(1)
+		.optional()
+		.describe("Minimum price of the first outcome (usually Yes)"),
+	max_price: z
+		.number()
+		.min(0)
+		.max(1)
+		.optional()
+		.describe("Maximum price of the first outcome (usually Yes)"),
+	max_spread: z
+		.number()
+		.min(0)
+		.max(1)
+		.optional()
+		.describe("Maximum bid-ask spread"),
+	sort_by: z
+		.enum(SCREEN_SORT_KEYS)
+		.optional()
+		.default("volume")
+		.describe("Column to sort by (default: volume)"),
+	ascending: z
+		.boolean()
+		.optional()
+		.default(false)
+		.describe("Sort ascending instead of descending (default: false)"),
+	limit: z
+		.number()
+		.int()
+		.positive()
+		.max(200)
+		.optional()
+		.default(25)
+		.describe("Number of rows to return (default: 25, max: 200)"),
+	max_scan: z
+		.number()
+		.int()
+		.positive()
+		.max(5000)
+		.optional()
+		.default(500)
+		.describe(
+			"Maximum number of markets to page through before filtering stops (default: 500, max: 5000). Gamma returns markets in sort_by order, so the top markets are scanned first; price and spread scans go by volume. With several tag_ids the budget is split between the tags, and truncatedTagIds lists the tags that hit it",
+		),
+});
+
+export const screenMarketsTool = {
+	name: "screen_markets",
+	description:
+		"Screen open markets by volume, liquidity, end-date window, tags, neg-risk flag, price range and spread, sorted by any of these. Pages through Gamma automatically up to max_scan and returns a compact table (columns + rows) instead of full market objects.",
+	parameters: screenMarketsSchema,
+	execute: async (args: z.infer<typeof screenMarketsSchema>) => {
+		const data = await screenMarkets({
+			minVolume: args.min_volume,
+			minVolume24h: args.min_volume_24h,
+			minLiquidity: args.min_liquidity,
+			endDateMin: args.end_date_min,
+			endDateMax: args.end_date_max,
+			tagIds: args.tag_ids,
+			negRisk: args.neg_risk,
+			minPrice: args.min_price,
+			maxPrice: args.max_price,
+			maxSpread: args.max_spread,
+			sortBy: args.sort_by,
+			ascending: args.ascending,
+			limit: args.limit,
+			maxScan: args.max_scan,
+		});
+		return JSON.stringify(data, null, 2);
+	},
+};
@@ -1,8 +1,10 @@
 import { z } from "zod";
 import { api } from "../services/api.js";
+import { bypassCacheField } from "../util/cache-options.js";
 
 const searchMarketsSchema = z.object({
 	query: z.string().describe("Search query text"),
+	...bypassCacheField,
 });
 
 export const searchMarketsTool = {
@@ -10,7 +12,9 @@ export const searchMarketsTool = {
 	description: "Search for markets, events, and profiles using text search.",
 	parameters: searchMarketsSchema,
 	execute: async (args: z.infer<typeof searchMarketsSchema>) => {
-		const data = await api.searchMarkets(args.query);
+		const data = await api.searchMarkets(args.query, {
+			bypassCache: args.bypass_cache,
+		});
 		return JSON.stringify(data, null, 2);
 	},
 };
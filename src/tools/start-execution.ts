@@ -0,0 +1,56 @@
+import { z } from "zod";
+import { executionApi } from "../services/execution.js";
+
+const startExecutionSchema = z.object({
+	strategy: z
+		.enum(["TWAP", "ICEBERG"])
+		.describe(
+			"TWAP splits the order into equal slices over a duration. ICEBERG keeps only a visible slice resting on the book and replaces it as it fills.",
+		),
+	tokenId: z.string().describe("The token ID of the market outcome to trade"),
+	side: z.enum(["BUY", "SELL"]).describe("The side of the order: BUY or SELL"),
+	totalSize: z
+		.number()
+		.positive()
+		.describe("Total number of shares to trade across all child orders"),
+	limitPrice: z
+		.number()
+		.min(0)
+		.max(1)
+		.describe(
+			"Limit price for LIMIT child orders; worst acceptable fill price for MARKET child orders",
+		),
+	childType: z
+		.enum(["LIMIT", "MARKET"])
+		.optional()
+		.describe(
+			"Child order type. LIMIT rests at limitPrice; MARKET sends FAK orders bounded by limitPrice. ICEBERG supports LIMIT only. Default: LIMIT",
+		),
+	durationMinutes: z
+		.number()
+		.positive()
+		.optional()
+		.describe("TWAP only: total time over which to spread the slices"),
+	slices: z
+		.number()
+		.int()
+		.min(1)
+		.optional()
+		.describe("TWAP only: number of child orders"),
+	visibleSize: z
+		.number()
+		.positive()
+		.optional()
+		.describe("ICEBERG only: shares shown on the book at any one time"),
+});
+
+export const startExecutionTool = {
+	name: "start_execution",
+	description:
+		"Start a TWAP or iceberg execution that works a large parent order as a series of child orders. The first child is placed immediately; the rest are managed in the background and survive a server restart. Returns the execution ID and its progress.",
+	parameters: startExecutionSchema,
+	execute: async (args: z.infer<typeof startExecutionSchema>) => {
+		const result = await executionApi.createExecution(args);
+		return JSON.stringify(result, null, 2);
+	},
+};
@@ -0,0 +1,20 @@
+import { z } from "zod";
+import { marketStream } from "../services/market-stream.js";
+
+const subscribeMarketDataSchema = z.object({
+	token_ids: z
+		.array(z.string())
+		.min(1)
+		.describe("Token IDs of the market outcomes to stream"),
+});
+
+export const subscribeMarketDataTool = {
+	name: "subscribe_market_data",
+	description:
+		"Start streaming live order book updates for market tokens over the CLOB websocket. A local order book is kept per token (read it with get_market_snapshot) and a notification is sent whenever a token's best bid or ask changes. Prefer this over polling get_order_book.",
+	parameters: subscribeMarketDataSchema,
+	execute: async (args: z.infer<typeof subscribeMarketDataSchema>) => {
+		const data = marketStream.subscribe(args.token_ids);
+		return JSON.stringify(data, null, 2);
+	},
+};
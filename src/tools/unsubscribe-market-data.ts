@@ -0,0 +1,22 @@
+import { z } from "zod";
+import { marketStream } from "../services/market-stream.js";
+
+const unsubscribeMarketDataSchema = z.object({
+	token_ids: z
+		.array(z.string())
+		.optional()
+		.describe(
+			"Token IDs to stop streaming. Omit to unsubscribe from everything",
+		),
+});
+
+export const unsubscribeMarketDataTool = {
+	name: "unsubscribe_market_data",
+	description:
+		"Stop streaming live order book updates for market tokens. The websocket connection is closed once no tokens remain subscribed.",
+	parameters: unsubscribeMarketDataSchema,
+	execute: async (args: z.infer<typeof unsubscribeMarketDataSchema>) => {
+		const data = marketStream.unsubscribe(args.token_ids);
+		return JSON.stringify(data, null, 2);
+	},
+};
@@ -0,0 +1,14 @@
+import { z } from "zod";
+
+/**
+ * Schema field letting read-only tools skip the Gamma response cache
+ */
+export const bypassCacheField = {
+	bypass_cache: z
+		.boolean()
+		.optional()
+		.default(false)
+		.describe(
+			"Fetch fresh data from Polymarket instead of a cached response (default: false)",
+		),
+};
@@ -0,0 +1,38 @@
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+import { log } from "./log.js";
+
+/**
+ * Small JSON file store for state that must survive a process restart.
+ * Writes go through a temp file and rename so a crash never leaves half a file.
+ */
+export class JsonFileStore<T> {
+	constructor(private readonly filePath: string) {}
+
+	/**
+	 * Read the stored value, or the fallback when there is no file yet. A file
+	 * that is not valid JSON is moved aside so it can be inspected, and the
+	 * store starts over from the fallback.
+	 */
+	read(fallback: T): T {
+		try {
+			return JSON.parse(readFileSync(this.filePath, "utf8")) as T;
+		} catch (err) {
+			if ((err as NodeJS.ErrnoException).code === "ENOENT") return fallback;
+			if (!(err instanceof SyntaxError)) throw err;
+			const corruptPath = `${this.filePath}.corrupt-${Date.now()}`;
+			renameSync(this.filePath, corruptPath);
+			log(
+				`${this.filePath} is not valid JSON (${err.message}); moved it to ${corruptPath} and starting with empty state`,
+			);
+			return fallback;
+		}
+	}
+
+	write(value: T): void {
+		mkdirSync(dirname(this.filePath), { recursive: true });
+		const tmpPath = `${this.filePath}.tmp`;
+		writeFileSync(tmpPath, JSON.stringify(value, null, 2));
+		renameSync(tmpPath, this.filePath);
+	}
+}
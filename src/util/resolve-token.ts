@@ -0,0 +1,35 @@
+import { z } from "zod";
+import { api } from "../services/api.js";
+
+/**
+ * Schema fields letting a tool take a market and outcome label instead of a raw token ID
+ */
+export const marketOutcomeFields = {
+	market: z
+		.string()
+		.optional()
+		.describe(
+			"Market slug, event slug or condition ID. Use together with outcome as an alternative to the token ID",
+		),
+	outcome: z
+		.string()
+		.optional()
+		.describe(
+			'Outcome label within the market, e.g. "Yes" or "No". With an event slug, a candidate name such as "Trump" selects that candidate\'s YES token (case-insensitive)',
+		),
+};
+
+/**
+ * Token ID from either an explicit token ID or a market + outcome pair
+ */
+export async function resolveTokenInput(args: {
+	tokenId?: string;
+	market?: string;
+	outcome?: string;
+}): Promise<string> {
+	if (args.tokenId) return args.tokenId;
+	if (!args.market || !args.outcome) {
+		throw new Error("Provide a token ID, or market together with outcome");
+	}
+	return api.resolveTokenId(args.market, args.outcome);
+}
@@ -0,0 +1,27 @@
+import { z } from "zod";
+
+/**
+ * Schema fields filtering the trade history tools
+ */
+export const tradeFilterFields = {
+	market: z
+		.string()
+		.optional()
+		.describe("Optional market (condition ID) to filter trades by"),
+	token_id: z
+		.string()
+		.optional()
+		.describe("Optional outcome token ID to filter trades by"),
+	side: z
+		.enum(["BUY", "SELL"])
+		.optional()
+		.describe("Only trades where our side was BUY or SELL"),
+	after: z
+		.string()
+		.optional()
+		.describe("Only trades after this time (unix seconds or ISO 8601)"),
+	before: z
+		.string()
+		.optional()
+		.describe("Only trades before this time (unix seconds or ISO 8601)"),
+};
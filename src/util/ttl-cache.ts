@@ -0,0 +1,132 @@
+/**
+ * In-memory response cache with per-entry TTL, a size bound (least recently
+ * used entries are evicted first) and de-duplication of in-flight requests.
+ * Failed requests are never cached. Callers get their own copy of a cached
+ * value, so mutating a result cannot corrupt the cache.
+ */
+
+export interface CacheStats {
+	entries: number;
+	maxEntries: number;
+	inFlight: number;
+	hits: number;
+	misses: number;
+	/** Callers that joined an identical request already in flight */
+	deduplicated: number;
+	evictions: number;
+	hitRate: number | null;
+}
+
+interface CacheEntry {
+	value: unknown;
+	expiresAt: number;
+}
+
+export class TtlCache {
+	private entries = new Map<string, CacheEntry>();
+	private inFlight = new Map<string, Promise<unknown>>();
+	private hits = 0;
+	private misses = 0;
+	private deduplicated = 0;
+	private evictions = 0;
+	// Bumped by clear() so requests started before it do not repopulate the cache
+	private generation = 0;
+
+	constructor(private readonly maxEntries = 500) {}
+
+	/**
+	 * Return the cached value for `key`, or run `fetcher` and cache its result
+	 * for `ttlMs`. With `bypass` the cache is skipped but the fresh result is stored.
+	 */
+	async wrap<T>(
+		key: string,
+		ttlMs: number,
+		fetcher: () => Promise<T>,
+		bypass = false,
+	): Promise<T> {
+		if (!bypass) {
+			const entry = this.entries.get(key);
+			if (entry && entry.expiresAt > Date.now()) {
+				// Re-insert to mark as most recently used
+				this.entries.delete(key);
+				this.entries.set(key, entry);
+				this.hits++;
+				return structuredClone(entry.value) as T;
+			}
+			const pending = this.inFlight.get(key);
+			if (pending) {
+				this.deduplicated++;
+				return pending.then((value) => structuredClone(value) as T);
+			}
+		}
+
+		this.misses++;
+		const generation = this.generation;
+		const request = fetcher()
+			.then((value) => {
+				if (generation === this.generation) this.set(key, value, ttlMs);
+				return value;
+			})
+			.finally(() => {
+				if (this.inFlight.get(key) === request) this.inFlight.delete(key);
+			});
+		this.inFlight.set(key, request);
+		return request.then((value) => structuredClone(value));
+	}
+
+	/**
+	 * Remove all entries and reset the statistics; returns how many entries
+	 * were removed. Requests in flight are forgotten, not aborted, and their
+	 * results are not cached.
+	 */
+	clear(): number {
+		const removed = this.entries.size;
+		this.generation++;
+		this.entries.clear();
+		this.inFlight.clear();
+		this.hits = 0;
+		this.misses = 0;
+		this.deduplicated = 0;
+		this.evictions = 0;
+		return removed;
+	}
+
+	getStats(): CacheStats {
+		this.pruneExpired();
+		const lookups = this.hits + this.misses + this.deduplicated;
+		return {
+			entries: this.entries.size,
+			maxEntries: this.maxEntries,
+			inFlight: this.inFlight.size,
+			hits: this.hits,
+			misses: this.misses,
+			deduplicated: this.deduplicated,
+			evictions: this.evictions,
+			hitRate:
+				lookups > 0
+					? Math.round(((this.hits + this.deduplicated) / lookups) * 1000) /
+						1000
+					: null,
+		};
+	}
+
+	private set(key: string, value: unknown, ttlMs: number): void {
+		this.entries.delete(key);
+		this.entries.set(key, {
+			value: structuredClone(value),
+			expiresAt: Date.now() + ttlMs,
+		});
+		while (this.entries.size > this.maxEntries) {
+			const oldest = this.entries.keys().next().value as string;
+			this.entries.delete(oldest);
+			this.evictions++;
+		}
+	}
+
+	private pruneExpired(): void {
+		const now = Date.now();
+		for (const [key, entry] of this.entries) {
+			if (entry.expiresAt <= now) this.entries.delete(key);
+		}
+	}
+}
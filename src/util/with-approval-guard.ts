@@ -1,4 +1,7 @@
 import { ApprovalRequiredError } from "../services/approvals.js";
+import { RiskLimitError } from "../services/risk.js";
+import { PriceProtectionError } from "../services/trading.js";
+import { OrderValidationError } from "../services/validation.js";
 
 export async function withApprovalGuard(
 	fn: () => Promise<unknown>,
@@ -7,7 +10,12 @@ export async function withApprovalGuard(
 		const result = await fn();
 		return JSON.stringify(result, null, 2);
 	} catch (err) {
-		if (err instanceof ApprovalRequiredError) {
+		if (
+			err instanceof ApprovalRequiredError ||
+			err instanceof RiskLimitError ||
+			err instanceof PriceProtectionError ||
+			err instanceof OrderValidationError
+		) {
 			return JSON.stringify(err, null, 2);
 		}
 		throw err;